@@ -1,5 +1,44 @@
 import DragScroll from '../src/index';
-import type { DragScrollOptions, DragScrollState } from '../src/index';
+import type { DragScrollOptions, DragScrollState, DragScrollVirtualOptions } from '../src/index';
+
+const originalRequestAnimationFrame = globalThis.requestAnimationFrame;
+const originalCancelAnimationFrame = globalThis.cancelAnimationFrame;
+
+// 以固定帧间隔模拟 requestAnimationFrame（配合 jest.useFakeTimers 使用）
+const mockFrameInterval = (interval: number) => {
+  globalThis.requestAnimationFrame = (callback: FrameRequestCallback): number => {
+    return setTimeout(() => callback(performance.now()), interval) as unknown as number;
+  };
+  globalThis.cancelAnimationFrame = (id: number): void => {
+    clearTimeout(id);
+  };
+};
+
+// 恢复 setup.ts 中的 requestAnimationFrame 模拟
+const restoreFrame = () => {
+  globalThis.requestAnimationFrame = originalRequestAnimationFrame;
+  globalThis.cancelAnimationFrame = originalCancelAnimationFrame;
+};
+
+// 在当前 describe 中使用 fake timers 和 16ms 帧间隔（实例由最外层的 afterEach 销毁）
+const useFakeFrames = () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockFrameInterval(16);
+  });
+
+  afterEach(() => {
+    restoreFrame();
+    jest.useRealTimers();
+  });
+};
+
+// jsdom 不计算布局，模拟容器高度（400px）和内容高度
+const mockSize = (instance: DragScroll, contentHeight: number) => {
+  Object.defineProperty(instance.$container, 'clientHeight', { value: 400, writable: true });
+  Object.defineProperty(instance.$content, 'offsetHeight', { value: contentHeight, writable: true });
+  Object.defineProperty(instance.$content, 'scrollHeight', { value: contentHeight, writable: true });
+};
 
 describe('DragScroll', () => {
   let container: HTMLElement;
@@ -156,16 +195,16 @@ describe('DragScroll', () => {
       expect(dragScroll.currentY).toBe(200);
     });
 
-    it('应该忽略负值', () => {
+    it('应该将负值限制为 0', () => {
       dragScroll.scrollToY(-100);
       expect(dragScroll.currentY).toBe(0);
     });
 
-    it('应该忽略超出最大滚动范围的值', () => {
+    it('应该将超出最大滚动范围的值限制在边界内', () => {
       const maxScroll = dragScroll.$content.scrollHeight - dragScroll.$container.clientHeight;
       dragScroll.scrollToY(maxScroll + 100);
-      // 超出范围的值会被忽略，currentY 保持为 0
-      expect(dragScroll.currentY).toBe(0);
+      // 超出范围的值会被限制在最大滚动距离
+      expect(dragScroll.currentY).toBe(maxScroll);
     });
 
     it('应该在滚动时触发 onChange 回调', () => {
@@ -209,14 +248,22 @@ describe('DragScroll', () => {
       Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: 1000, writable: true });
     });
 
-    it('应该在 pointerdown 时触发 onDragStart', () => {
+    it('应该在超过拖拽阈值时触发 onDragStart', () => {
       const event = new PointerEvent('pointerdown', {
         clientY: 100,
         bubbles: true,
       });
       container.dispatchEvent(event);
-      expect(onDragStart).toHaveBeenCalledWith(event);
+      expect(onDragStart).not.toHaveBeenCalled();
       expect(dragScroll.isDragging).toBe(true);
+
+      const moveEvent = new PointerEvent('pointermove', {
+        clientY: 150,
+        bubbles: true,
+      });
+      document.dispatchEvent(moveEvent);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+      expect(onDragStart).toHaveBeenCalledWith(moveEvent);
     });
 
     it('应该在 pointermove 时触发 onDragging', () => {
@@ -244,6 +291,7 @@ describe('DragScroll', () => {
         bubbles: true,
       });
       container.dispatchEvent(downEvent);
+      document.dispatchEvent(new PointerEvent('pointermove', { clientY: 150, bubbles: true }));
 
       // 结束拖拽
       const upEvent = new PointerEvent('pointerup', {
@@ -346,4 +394,2489 @@ describe('DragScroll', () => {
       expect(dragScroll.currentY).toBe(maxScroll);
     });
   });
+
+  describe('axis 滚动方向', () => {
+    const mockHorizontalSize = () => {
+      Object.defineProperty(container, 'clientWidth', { value: 300, writable: true });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      Object.defineProperty(dragScroll.$content, 'offsetWidth', { value: 1000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollWidth', { value: 1000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'offsetHeight', { value: 1000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: 1000, writable: true });
+    };
+
+    it('默认应该只渲染垂直滚动条', () => {
+      dragScroll = new DragScroll(container);
+      expect(dragScroll.options.axis).toBe('y');
+      expect(container.classList.contains('drag-scroll-axis-y')).toBe(true);
+      expect(container.querySelector('.drag-scroll-bar-x')).toBeNull();
+    });
+
+    it('axis 为 x 时应该水平拖拽', () => {
+      const onDragging = jest.fn();
+      dragScroll = new DragScroll(container, { axis: 'x', onDragging });
+      mockHorizontalSize();
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientX: 200, clientY: 200, bubbles: true }));
+      document.dispatchEvent(new MouseEvent('pointermove', { clientX: 150, clientY: 100, bubbles: true }));
+
+      expect(dragScroll.currentX).toBe(50);
+      expect(dragScroll.currentY).toBe(0);
+      expect(onDragging).toHaveBeenCalledWith(50, 0, expect.objectContaining({ x: 50, direction: 'right' }));
+      expect(dragScroll.$content.style.transform).toBe('translate3d(-50px, 0px, 0)');
+    });
+
+    it('axis 为 both 时应该双轴拖拽并限制边界', () => {
+      dragScroll = new DragScroll(container, { axis: 'both' });
+      mockHorizontalSize();
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientX: 200, clientY: 200, bubbles: true }));
+      document.dispatchEvent(new MouseEvent('pointermove', { clientX: 170, clientY: 160, bubbles: true }));
+      expect(dragScroll.currentX).toBe(30);
+      expect(dragScroll.currentY).toBe(40);
+
+      dragScroll.currentX = 2000;
+      dragScroll['_applyTransform']();
+      expect(dragScroll.currentX).toBe(700);
+    });
+
+    it('axis 为 both 时应该同时渲染两个滚动条', () => {
+      dragScroll = new DragScroll(container, { axis: 'both' });
+      expect(container.querySelectorAll('.drag-scroll-bar').length).toBe(2);
+      expect(container.querySelector('.drag-scroll-bar-x')).not.toBeNull();
+    });
+
+    it('scrollToX 应该滚动到指定位置并触发 onChange', () => {
+      const onChange = jest.fn();
+      dragScroll = new DragScroll(container, { axis: 'x', onChange });
+      mockHorizontalSize();
+
+      dragScroll.scrollToX(120);
+      expect(dragScroll.currentX).toBe(120);
+      expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ x: 120, y: 0 }));
+    });
+  });
+
+  describe('惯性滚动', () => {
+    const flick = () => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 250, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 200, bubbles: true }));
+    };
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 3000px;">Long Content</div>',
+      });
+      mockSize(dragScroll, 3000);
+    });
+
+    it('应该在释放后按释放速度继续滚动，并在静止后停止动画', () => {
+      flick();
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      expect(dragScroll.currentY).toBe(100);
+      expect(dragScroll.velocity).toBeGreaterThan(0);
+
+      jest.advanceTimersByTime(5000);
+      expect(dragScroll.currentY).toBeGreaterThan(100);
+      expect(dragScroll.velocity).toBe(0);
+      expect(dragScroll['_animationId']).toBeNull();
+    });
+
+    it('应该在停顿后释放时不产生惯性', () => {
+      flick();
+      jest.advanceTimersByTime(200);
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(100);
+    });
+
+    it('应该在再次按下时停止惯性滚动', () => {
+      flick();
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      jest.advanceTimersByTime(48);
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      const y = dragScroll.currentY;
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(y);
+    });
+
+    it('应该在不同刷新率下滚动相同距离', () => {
+      const run = (interval: number) => {
+        mockFrameInterval(interval);
+        dragScroll.currentY = 0;
+        dragScroll.velocity = 20;
+        dragScroll['_startAnimation']();
+        jest.advanceTimersByTime(5000);
+        return dragScroll.currentY;
+      };
+      const distance60Hz = run(1000 / 60);
+      const distance120Hz = run(1000 / 120);
+      expect(Math.abs(distance60Hz - distance120Hz) / distance60Hz).toBeLessThan(0.05);
+    });
+
+    it('应该在 destroy 时取消惯性滚动', () => {
+      flick();
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      const cancelSpy = jest.spyOn(globalThis, 'cancelAnimationFrame');
+      dragScroll.destroy();
+      expect(cancelSpy).toHaveBeenCalled();
+      cancelSpy.mockRestore();
+    });
+  });
+
+  describe('overscroll 越界回弹', () => {
+    let onChange: jest.Mock;
+
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      onChange = jest.fn();
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 1000px;">Long Content</div>',
+        onChange,
+        ...options,
+      });
+      mockSize(dragScroll, 1000);
+    };
+
+    const pullDown = () => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 100, bubbles: true }));
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 300, bubbles: true }));
+    };
+
+    useFakeFrames();
+
+    it('clamp 模式下拖拽不应越过边界', () => {
+      createDragScroll();
+      pullDown();
+      expect(dragScroll.currentY).toBe(0);
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ overscrollY: 0 }));
+    });
+
+    it('bounce 模式下越界拖拽应该有阻力并上报越界距离', () => {
+      createDragScroll({ overscroll: 'bounce' });
+      pullDown();
+      const firstOverscroll = dragScroll.currentY;
+      expect(firstOverscroll).toBeLessThan(0);
+      expect(firstOverscroll).toBeGreaterThanOrEqual(-200 * 0.6);
+
+      // 越界越多阻力越大
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 500, bubbles: true }));
+      expect(firstOverscroll - dragScroll.currentY).toBeLessThan(-firstOverscroll);
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ overscrollY: dragScroll.currentY }));
+    });
+
+    it('bounce 模式下释放后应该平滑回弹到边界并停止动画', () => {
+      createDragScroll({ overscroll: 'bounce' });
+      pullDown();
+      jest.advanceTimersByTime(200);
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+
+      const positions: number[] = [];
+      onChange.mockImplementation((state: DragScrollState) => positions.push(state.y));
+      jest.advanceTimersByTime(2000);
+
+      expect(dragScroll.currentY).toBe(0);
+      expect(dragScroll['_animationId']).toBeNull();
+      // 回弹过程单调且不会越过边界
+      positions.forEach((y, i) => {
+        expect(y).toBeLessThanOrEqual(0);
+        if (i > 0) expect(y).toBeGreaterThanOrEqual(positions[i - 1]);
+      });
+    });
+
+    it('bounce 模式下惯性滚动越过底部后应该回弹', () => {
+      createDragScroll({ overscroll: 'bounce' });
+      dragScroll.currentY = 580;
+      dragScroll.velocity = 20;
+      dragScroll['_startAnimation']();
+
+      let maxOverscroll = 0;
+      onChange.mockImplementation((state: DragScrollState) => {
+        maxOverscroll = Math.max(maxOverscroll, state.overscrollY);
+      });
+      jest.advanceTimersByTime(3000);
+
+      expect(maxOverscroll).toBeGreaterThan(0);
+      expect(dragScroll.currentY).toBe(600);
+    });
+  });
+
+  describe('physics 物理参数', () => {
+    it('应该默认使用 default 预设', () => {
+      dragScroll = new DragScroll(container);
+      expect(dragScroll.physics).toEqual({ friction: 0.92, spring: 0.25, bounceDamping: 0.6, maxVelocity: 30 });
+    });
+
+    it('应该支持通过选项传入预设名称或部分参数', () => {
+      dragScroll = new DragScroll(container, { physics: 'stiff' });
+      expect(dragScroll.physics.friction).toBe(0.85);
+      dragScroll.destroy();
+
+      dragScroll = new DragScroll(container, { physics: { friction: 0.9 } });
+      expect(dragScroll.physics).toEqual({ friction: 0.9, spring: 0.25, bounceDamping: 0.6, maxVelocity: 30 });
+    });
+
+    it('应该支持运行时修改物理参数', () => {
+      dragScroll = new DragScroll(container);
+      dragScroll.physics = 'ios-like';
+      expect(dragScroll.physics.maxVelocity).toBe(60);
+      dragScroll.physics = { maxVelocity: 45 };
+      expect(dragScroll.physics.maxVelocity).toBe(45);
+      expect(dragScroll.physics.friction).toBe(0.95);
+    });
+
+    it('应该拒绝不合法的参数且保持原参数不变', () => {
+      dragScroll = new DragScroll(container);
+      expect(() => {
+        dragScroll.physics = { friction: 1.2 };
+      }).toThrow('physics.friction');
+      expect(() => {
+        dragScroll.physics = { spring: 0 };
+      }).toThrow('physics.spring');
+      expect(() => {
+        dragScroll.physics = { bounceDamping: NaN };
+      }).toThrow('physics.bounceDamping');
+      expect(() => {
+        dragScroll.physics = { friction: 0.5, maxVelocity: Infinity };
+      }).toThrow('physics.maxVelocity');
+      expect(() => {
+        dragScroll.physics = 'unknown' as any;
+      }).toThrow("physics preset 'unknown' is not supported");
+      expect(dragScroll.physics.friction).toBe(0.92);
+    });
+
+    it('应该在构造时校验参数', () => {
+      expect(() => new DragScroll(container, { physics: { friction: -1 } })).toThrow('physics.friction');
+    });
+  });
+
+  describe('scrollTo 动画滚动', () => {
+    let onChange: jest.Mock;
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      onChange = jest.fn();
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 1000px;">Long Content</div>',
+        onChange,
+      });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('应该在动画结束时到达目标位置并 resolve', async () => {
+      const promise = dragScroll.scrollTo({ y: 300, duration: 200 });
+      jest.advanceTimersByTime(100);
+      expect(dragScroll.currentY).toBeGreaterThan(0);
+      expect(dragScroll.currentY).toBeLessThan(300);
+
+      jest.advanceTimersByTime(200);
+      await expect(promise).resolves.toBeUndefined();
+      expect(dragScroll.currentY).toBe(300);
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ y: 300 }));
+    });
+
+    it('应该将超出范围的目标限制在边界内', async () => {
+      const promise = dragScroll.scrollTo({ y: 5000, duration: 100 });
+      jest.advanceTimersByTime(200);
+      await promise;
+      expect(dragScroll.currentY).toBe(600);
+    });
+
+    it('duration 为 0 时应该立即滚动', async () => {
+      await dragScroll.scrollTo({ y: -20, duration: 0 });
+      expect(dragScroll.currentY).toBe(0);
+      await dragScroll.scrollTo({ y: 250, duration: 0 });
+      expect(dragScroll.currentY).toBe(250);
+    });
+
+    it('应该支持内置缓动名称和自定义缓动函数', async () => {
+      const easing = jest.fn((t: number) => t);
+      const promise = dragScroll.scrollTo({ y: 200, duration: 160, easing });
+      jest.advanceTimersByTime(80);
+      expect(easing).toHaveBeenCalled();
+      expect(dragScroll.currentY).toBeCloseTo(100, 0);
+      jest.advanceTimersByTime(200);
+      await promise;
+
+      expect(DragScroll.easings.easeOutCubic(0.5)).toBeCloseTo(0.875);
+      await expect(dragScroll.scrollTo({ y: 0, easing: 'unknown' as any })).rejects.toThrow("easing 'unknown' is not supported");
+    });
+
+    it('应该在拖拽开始时中断动画并 reject', async () => {
+      const promise = dragScroll.scrollTo({ y: 500, duration: 300 });
+      jest.advanceTimersByTime(50);
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 100, bubbles: true }));
+      await expect(promise).rejects.toThrow('scroll animation was cancelled');
+
+      const y = dragScroll.currentY;
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(y);
+    });
+
+    it('应该在新的滚动开始时中断之前的动画', async () => {
+      const first = dragScroll.scrollTo({ y: 500 });
+      const second = dragScroll.scrollTo({ y: 100 });
+      await expect(first).rejects.toThrow('scroll animation was cancelled');
+      jest.advanceTimersByTime(500);
+      await second;
+      expect(dragScroll.currentY).toBe(100);
+    });
+  });
+
+  describe('scrollToElement 方法', () => {
+    // 模拟元素在内容中的位置（内容随 currentY 平移）
+    const mockRect = (el: HTMLElement, top: number, height: number) => {
+      el.getBoundingClientRect = () => {
+        const y = top - dragScroll.currentY;
+        return { top: y, bottom: y + height, height, left: 0, right: 300, width: 300, x: 0, y } as DOMRect;
+      };
+    };
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, {
+        content: Array.from({ length: 10 }, (_, i) => `<div class="item" id="item_${i}">${i}</div>`).join(''),
+      });
+      mockSize(dragScroll, 1000);
+      mockRect(dragScroll.$content, 0, 1000);
+      dragScroll.$content.querySelectorAll<HTMLElement>('.item').forEach((el, i) => mockRect(el, i * 100, 100));
+    });
+
+    it('应该按 start 对齐滚动到选择器对应的元素', async () => {
+      await dragScroll.scrollToElement('#item_3', { animate: false });
+      expect(dragScroll.currentY).toBe(300);
+    });
+
+    it('应该支持 center、end 对齐和偏移量', async () => {
+      const el = dragScroll.$content.querySelector<HTMLElement>('#item_5')!;
+      await dragScroll.scrollToElement(el, { align: 'center', animate: false });
+      expect(dragScroll.currentY).toBe(350);
+      await dragScroll.scrollToElement(el, { align: 'end', animate: false });
+      expect(dragScroll.currentY).toBe(200);
+      await dragScroll.scrollToElement(el, { offset: -60, animate: false });
+      expect(dragScroll.currentY).toBe(440);
+    });
+
+    it('nearest 对齐时已可见的元素不应滚动', async () => {
+      dragScroll.scrollToY(150);
+      await dragScroll.scrollToElement('#item_3', { align: 'nearest', animate: false });
+      expect(dragScroll.currentY).toBe(150);
+      // 元素在下方不可见时与底部对齐
+      await dragScroll.scrollToElement('#item_7', { align: 'nearest', animate: false });
+      expect(dragScroll.currentY).toBe(400);
+      // 元素在上方不可见时与顶部对齐
+      await dragScroll.scrollToElement('#item_1', { align: 'nearest', animate: false });
+      expect(dragScroll.currentY).toBe(100);
+    });
+
+    it('应该将目标位置限制在边界内', async () => {
+      await dragScroll.scrollToElement('#item_9', { animate: false });
+      expect(dragScroll.currentY).toBe(600);
+    });
+
+    it('元素不在内容中时应该 reject', async () => {
+      await expect(dragScroll.scrollToElement('#not_exist')).rejects.toThrow('target element is not found in content');
+      await expect(dragScroll.scrollToElement(document.body)).rejects.toThrow('target element is not found in content');
+    });
+  });
+
+  describe('wheel 滚轮滚动', () => {
+    const wheel = (init: WheelEventInit) => {
+      const event = new WheelEvent('wheel', { bubbles: true, cancelable: true, ...init });
+      container.dispatchEvent(event);
+      return event;
+    };
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 1000px;">Long Content</div>',
+      });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('触控板像素位移应该直接滚动', () => {
+      const event = wheel({ deltaY: 12.5 });
+      expect(dragScroll.currentY).toBe(12.5);
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('鼠标滚轮分段滚动应该平滑过渡并累加', () => {
+      wheel({ deltaY: 100 });
+      expect(dragScroll.currentY).toBe(0);
+      wheel({ deltaY: 100 });
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(200);
+    });
+
+    it('应该按 deltaMode 换算行和页', () => {
+      wheel({ deltaY: 3, deltaMode: 1 });
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(120);
+
+      wheel({ deltaY: 1, deltaMode: 2 });
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(520);
+    });
+
+    it('滚动到尽头后不应阻止页面滚动', () => {
+      expect(wheel({ deltaY: -10 }).defaultPrevented).toBe(false);
+      dragScroll.scrollToY(600);
+      expect(wheel({ deltaY: 10 }).defaultPrevented).toBe(false);
+      expect(wheel({ deltaY: -10 }).defaultPrevented).toBe(true);
+    });
+
+    it('只读或关闭 wheel 时不应滚动', () => {
+      dragScroll.readonly = true;
+      expect(wheel({ deltaY: 10 }).defaultPrevented).toBe(false);
+      expect(dragScroll.currentY).toBe(0);
+      dragScroll.destroy();
+
+      dragScroll = new DragScroll(container, { wheel: false });
+      Object.defineProperty(dragScroll.$content, 'offsetHeight', { value: 1000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: 1000, writable: true });
+      expect(wheel({ deltaY: 10 }).defaultPrevented).toBe(false);
+    });
+
+    it('axis 为 x 时应该将垂直滚轮映射为水平滚动', () => {
+      dragScroll.destroy();
+      dragScroll = new DragScroll(container, { axis: 'x' });
+      Object.defineProperty(container, 'clientWidth', { value: 300, writable: true });
+      Object.defineProperty(dragScroll.$content, 'offsetWidth', { value: 1000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollWidth', { value: 1000, writable: true });
+      wheel({ deltaY: 20 });
+      expect(dragScroll.currentX).toBe(20);
+    });
+  });
+
+  describe('keyboard 键盘导航', () => {
+    const press = (key: string, init: KeyboardEventInit = {}, target: HTMLElement = container) => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+      target.dispatchEvent(event);
+      jest.advanceTimersByTime(500);
+      return event;
+    };
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, {
+        content:
+          '<div style="height: 1000px;"><input id="input" /><a id="link" href="#">link</a><button id="button">button</button><div id="menu" role="button" tabindex="0"><span>menu</span></div></div>',
+        keyboard: true,
+      });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('应该使容器可聚焦，并在销毁时移除 tabindex', () => {
+      expect(container.tabIndex).toBe(0);
+      dragScroll.destroy();
+      expect(container.hasAttribute('tabindex')).toBe(false);
+    });
+
+    it('默认不应启用键盘导航', () => {
+      dragScroll.destroy();
+      dragScroll = new DragScroll(container);
+      expect(container.hasAttribute('tabindex')).toBe(false);
+    });
+
+    it('应该支持方向键、翻页键、Home/End 和空格滚动', () => {
+      press('ArrowDown');
+      expect(dragScroll.currentY).toBe(40);
+      press('ArrowUp');
+      expect(dragScroll.currentY).toBe(0);
+      press('PageDown');
+      expect(dragScroll.currentY).toBe(360);
+      press('PageUp');
+      expect(dragScroll.currentY).toBe(0);
+      press(' ');
+      expect(dragScroll.currentY).toBe(360);
+      press(' ', { shiftKey: true });
+      expect(dragScroll.currentY).toBe(0);
+      press('End');
+      expect(dragScroll.currentY).toBe(600);
+      press('Home');
+      expect(dragScroll.currentY).toBe(0);
+    });
+
+    it('滚动到尽头或输入框中按键时不应阻止默认行为', () => {
+      expect(press('ArrowUp').defaultPrevented).toBe(false);
+      expect(press('ArrowDown').defaultPrevented).toBe(true);
+      const input = dragScroll.$content.querySelector<HTMLElement>('#input')!;
+      expect(press('ArrowDown', {}, input).defaultPrevented).toBe(false);
+      expect(press(' ', {}, input).defaultPrevented).toBe(false);
+    });
+
+    it('按钮等可交互元素上按空格时应该交由元素自身处理', () => {
+      const button = dragScroll.$content.querySelector<HTMLElement>('#button')!;
+      expect(press(' ', {}, button).defaultPrevented).toBe(false);
+      expect(press(' ', {}, dragScroll.$content.querySelector<HTMLElement>('#menu span')!).defaultPrevented).toBe(false);
+      expect(dragScroll.currentY).toBe(0);
+      // 方向键仍然滚动
+      expect(press('ArrowDown', {}, button).defaultPrevented).toBe(true);
+      expect(dragScroll.currentY).toBe(40);
+      expect(press(' ').defaultPrevented).toBe(true);
+      expect(dragScroll.currentY).toBe(400);
+    });
+
+    it('聚焦内容中的元素时应该将其滚动到可见区域', () => {
+      const link = dragScroll.$content.querySelector<HTMLElement>('#link')!;
+      dragScroll.$content.getBoundingClientRect = () => ({ top: -dragScroll.currentY, left: 0, width: 300, height: 1000 }) as DOMRect;
+      link.getBoundingClientRect = () => ({ top: 700 - dragScroll.currentY, left: 0, width: 300, height: 50 }) as DOMRect;
+      link.focus();
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(350);
+    });
+  });
+
+  describe('无障碍', () => {
+    it('应该为容器和滚动条设置 ARIA 属性', () => {
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 1000px;">Long Content</div>',
+        ariaLabel: '消息列表',
+      });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: 1000, writable: true });
+
+      expect(container.getAttribute('role')).toBe('region');
+      expect(container.getAttribute('aria-label')).toBe('消息列表');
+      const scrollbar = container.querySelector('.drag-scroll-bar')!;
+      expect(scrollbar.getAttribute('role')).toBe('scrollbar');
+      expect(scrollbar.getAttribute('aria-controls')).toBe(dragScroll.$content.id);
+      expect(scrollbar.getAttribute('aria-orientation')).toBe('vertical');
+      expect(scrollbar.getAttribute('aria-valuemin')).toBe('0');
+
+      dragScroll.scrollToY(200.4);
+      expect(scrollbar.getAttribute('aria-valuenow')).toBe('200');
+      expect(scrollbar.getAttribute('aria-valuemax')).toBe('600');
+    });
+
+    it('应该保留容器已有的 role 并在销毁时移除添加的属性', () => {
+      container.setAttribute('role', 'list');
+      dragScroll = new DragScroll(container, { ariaLabel: 'label' });
+      expect(container.getAttribute('role')).toBe('list');
+      dragScroll.destroy();
+      expect(container.getAttribute('role')).toBe('list');
+      expect(container.hasAttribute('aria-label')).toBe(false);
+      container.removeAttribute('role');
+    });
+
+    describe('prefers-reduced-motion', () => {
+      const originalMatchMedia = window.matchMedia;
+
+      beforeEach(() => {
+        window.matchMedia = jest.fn().mockReturnValue({
+          matches: true,
+          addEventListener: jest.fn(),
+          removeEventListener: jest.fn(),
+        });
+        dragScroll = new DragScroll(container, {
+          content: '<div style="height: 1000px;">Long Content</div>',
+          overscroll: 'bounce',
+        });
+        mockSize(dragScroll, 1000);
+      });
+
+      afterEach(() => {
+        window.matchMedia = originalMatchMedia;
+      });
+
+      it('应该立即完成滚动动画', async () => {
+        await dragScroll.scrollTo({ y: 300, duration: 1000 });
+        expect(dragScroll.currentY).toBe(300);
+      });
+
+      it('应该关闭惯性滚动，越界时直接回到边界', () => {
+        container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 100, bubbles: true }));
+        document.dispatchEvent(new MouseEvent('pointermove', { clientY: 300, bubbles: true }));
+        expect(dragScroll.currentY).toBeLessThan(0);
+        document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+        expect(dragScroll.currentY).toBe(0);
+        expect(dragScroll['_animationId']).toBeNull();
+      });
+    });
+  });
+
+  describe('滚动条交互', () => {
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, {
+        content: '<div style="height: 1000px;">Long Content</div>',
+        ...options,
+      });
+      mockSize(dragScroll, 1000);
+      return {
+        scrollbar: container.querySelector<HTMLElement>('.drag-scroll-bar')!,
+        thumb: container.querySelector<HTMLElement>('.drag-scroll-bar-thumb')!,
+      };
+    };
+
+    useFakeFrames();
+
+    it('应该可以拖拽滚动条指示器，且不触发内容拖拽', () => {
+      const { scrollbar, thumb } = createDragScroll();
+      thumb.dispatchEvent(new PointerEvent('pointerdown', { clientY: 10, pointerId: 1, bubbles: true }));
+      expect(dragScroll.isDragging).toBe(false);
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(true);
+
+      // 指示器高度 160px，滑动范围 240px，对应最大滚动距离 600px
+      document.dispatchEvent(new PointerEvent('pointermove', { clientY: 130, pointerId: 1, bubbles: true }));
+      expect(dragScroll.currentY).toBe(300);
+      document.dispatchEvent(new PointerEvent('pointermove', { clientY: 1000, pointerId: 1, bubbles: true }));
+      expect(dragScroll.currentY).toBe(600);
+
+      document.dispatchEvent(new PointerEvent('pointerup', { clientY: 1000, pointerId: 1, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointermove', { clientY: 10, pointerId: 1, bubbles: true }));
+      expect(dragScroll.currentY).toBe(600);
+      jest.advanceTimersByTime(2000);
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(false);
+    });
+
+    it('点击滑轨应该向点击位置翻页', () => {
+      const { scrollbar, thumb } = createDragScroll();
+      thumb.getBoundingClientRect = () => ({ top: (dragScroll.currentY / 600) * 240, height: 160 }) as DOMRect;
+
+      scrollbar.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(360);
+
+      scrollbar.dispatchEvent(new PointerEvent('pointerdown', { clientY: 10, bubbles: true }));
+      jest.advanceTimersByTime(500);
+      expect(dragScroll.currentY).toBe(0);
+    });
+
+    it('鼠标悬停在滚动条上时应该保持显示', () => {
+      const { scrollbar } = createDragScroll();
+      dragScroll.scrollTo({ y: 100, duration: 100 });
+      scrollbar.dispatchEvent(new PointerEvent('pointerenter'));
+      jest.advanceTimersByTime(3000);
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(true);
+
+      scrollbar.dispatchEvent(new PointerEvent('pointerleave'));
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(false);
+    });
+
+    it('scrollbarVisibility 为 always 时应该始终显示', () => {
+      const { scrollbar } = createDragScroll({ scrollbarVisibility: 'always' });
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(true);
+      dragScroll.scrollTo({ y: 100, duration: 100 });
+      jest.advanceTimersByTime(3000);
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(true);
+    });
+
+    it('scrollbarVisibility 为 hover 时应该在鼠标悬停在容器上时显示', () => {
+      const { scrollbar } = createDragScroll({ scrollbarVisibility: 'hover' });
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(false);
+      container.dispatchEvent(new PointerEvent('pointerenter'));
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(true);
+      container.dispatchEvent(new PointerEvent('pointerleave'));
+      expect(scrollbar.classList.contains('drag-scroll-show')).toBe(false);
+    });
+  });
+
+  describe('observe 自动刷新', () => {
+    let resizeCallbacks: ResizeObserverCallback[];
+    let disconnect: jest.Mock;
+    const originalResizeObserver = globalThis.ResizeObserver;
+
+    const setContentHeight = (height: number) => {
+      Object.defineProperty(dragScroll.$content, 'offsetHeight', { value: height, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: height, writable: true });
+    };
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      resizeCallbacks = [];
+      disconnect = jest.fn();
+      globalThis.ResizeObserver = class {
+        constructor(callback: ResizeObserverCallback) {
+          resizeCallbacks.push(callback);
+        }
+        observe() {}
+        unobserve() {}
+        disconnect = disconnect;
+      } as unknown as typeof ResizeObserver;
+    });
+
+    afterEach(() => {
+      globalThis.ResizeObserver = originalResizeObserver;
+    });
+
+    it('refresh 应该在内容变小时将位置限制在新的边界内', () => {
+      const onChange = jest.fn();
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', onChange });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      setContentHeight(1000);
+      dragScroll.scrollToY(600);
+      onChange.mockClear();
+
+      setContentHeight(700);
+      dragScroll.refresh();
+      expect(dragScroll.currentY).toBe(300);
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      dragScroll.refresh();
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('未开启 observe 时不应该创建监听', () => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>' });
+      expect(resizeCallbacks).toHaveLength(0);
+    });
+
+    it('尺寸变化应该合并到同一帧刷新', () => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', observe: true });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      setContentHeight(1000);
+      dragScroll.scrollToY(600);
+      const refresh = jest.spyOn(dragScroll, 'refresh');
+
+      setContentHeight(500);
+      resizeCallbacks.forEach(callback => callback([], {} as ResizeObserver));
+      resizeCallbacks.forEach(callback => callback([], {} as ResizeObserver));
+      expect(refresh).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(20);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(dragScroll.currentY).toBe(100);
+    });
+
+    it('内容 DOM 变化应该触发刷新', async () => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', observe: true });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      setContentHeight(1000);
+      dragScroll.scrollToY(600);
+
+      setContentHeight(400);
+      dragScroll.$content.innerHTML = '<div>Short</div>';
+      // MutationObserver 回调在微任务中执行
+      await Promise.resolve();
+      jest.advanceTimersByTime(20);
+      expect(dragScroll.currentY).toBe(0);
+    });
+
+    it('销毁时应该停止监听', () => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', observe: true });
+      dragScroll.destroy();
+      expect(disconnect).toHaveBeenCalled();
+    });
+  });
+
+  describe('DOM 节点内容', () => {
+    const createItem = (text: string) => {
+      const $item = document.createElement('div');
+      $item.className = 'item';
+      $item.textContent = text;
+      return $item;
+    };
+
+    it('content 应该支持 DOM 节点并保留事件监听', () => {
+      const $item = createItem('Node');
+      const onClick = jest.fn();
+      $item.addEventListener('click', onClick);
+      dragScroll = new DragScroll(container, { content: $item });
+
+      expect(dragScroll.$content.firstChild).toBe($item);
+      $item.click();
+      expect(onClick).toHaveBeenCalled();
+    });
+
+    it('content 应该支持 DocumentFragment 和元素数组', () => {
+      const fragment = document.createDocumentFragment();
+      fragment.append(createItem('A'), createItem('B'));
+      dragScroll = new DragScroll(container, { content: fragment });
+      expect(dragScroll.$content.querySelectorAll('.item')).toHaveLength(2);
+
+      dragScroll.innerHtml([createItem('C'), createItem('D'), createItem('E')]);
+      expect(dragScroll.$content.textContent).toBe('CDE');
+
+      dragScroll.innerHtml(() => createItem('F'));
+      expect(dragScroll.$content.textContent).toBe('F');
+    });
+
+    it('adopt 模式应该接管容器现有子节点，并在销毁时移回', () => {
+      const $item = createItem('Existing');
+      container.appendChild($item);
+      dragScroll = new DragScroll(container, { adopt: true, content: '<div>Ignored</div>' });
+
+      expect($item.parentElement).toBe(dragScroll.$content);
+      expect(dragScroll.$content.textContent).toBe('Existing');
+
+      dragScroll.destroy();
+      expect($item.parentElement).toBe(container);
+      expect(container.querySelector('.drag-scroll-content')).toBeNull();
+    });
+
+    describe('append/prepend', () => {
+      beforeEach(() => {
+        dragScroll = new DragScroll(container, {
+          content: [createItem('1'), createItem('2'), createItem('3'), createItem('4'), createItem('5')],
+        });
+        Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+        // 每项高度 100px
+        const getHeight = () => dragScroll.$content.children.length * 100;
+        Object.defineProperty(dragScroll.$content, 'offsetHeight', { get: getHeight, configurable: true });
+        Object.defineProperty(dragScroll.$content, 'scrollHeight', { get: getHeight, configurable: true });
+        dragScroll.scrollToY(50);
+      });
+
+      it('append 应该追加内容并保持滚动位置', () => {
+        dragScroll.append('<div class="item">6</div>');
+        dragScroll.append([createItem('7'), createItem('8')]);
+        expect(dragScroll.$content.lastElementChild?.textContent).toBe('8');
+        expect(dragScroll.currentY).toBe(50);
+
+        dragScroll.scrollToY(1000);
+        expect(dragScroll.currentY).toBe(400);
+      });
+
+      it('prepend 应该插入内容并调整滚动位置，使可见内容保持不动', () => {
+        const onChange = jest.fn();
+        dragScroll.options.onChange = onChange;
+        dragScroll.prepend([createItem('-1'), createItem('0')]);
+
+        expect(dragScroll.$content.firstElementChild?.textContent).toBe('-1');
+        expect(dragScroll.currentY).toBe(250);
+        expect(dragScroll.$content.style.transform).toBe('translate3d(0px, -250px, 0)');
+        expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ y: 250 }));
+      });
+    });
+  });
+
+  describe('sanitize 内容净化', () => {
+    const unsafeHtml =
+      '<div class="item" onclick="alert(1)" onmouseover="alert(2)">Item</div>' +
+      '<script>alert(3)</script>' +
+      '<iframe srcdoc="<script>alert(4)</script>"></iframe>' +
+      '<a href=" java\tscript:alert(5)">Link</a>' +
+      '<img src="a.png" onerror="alert(6)" alt="img">' +
+      '<template><img src="x" onerror="alert(7)"></template>' +
+      '<style>body { display: none; }</style>' +
+      '<svg><a><animate attributeName="href" values="#;javascript:alert(8)" /><set attributeName="href" to="javascript:alert(9)" />' +
+      '<animateMotion dur="1s" path="M0,0 L10,10" /><text>SVG</text></a></svg>';
+
+    it('默认应该移除脚本、事件处理属性和 javascript: URL', () => {
+      dragScroll = new DragScroll(container, { content: unsafeHtml });
+      const $content = dragScroll.$content;
+
+      expect($content.querySelector('script')).toBeNull();
+      expect($content.querySelector('iframe')).toBeNull();
+      expect($content.querySelector('style')).toBeNull();
+      expect($content.querySelector('.item')?.getAttribute('onclick')).toBeNull();
+      expect($content.querySelector('.item')?.getAttribute('onmouseover')).toBeNull();
+      expect($content.querySelector('.item')?.textContent).toBe('Item');
+      expect($content.querySelector('a')?.hasAttribute('href')).toBe(false);
+      expect($content.querySelector('img')?.getAttribute('src')).toBe('a.png');
+      expect($content.querySelector('img')?.hasAttribute('onerror')).toBe(false);
+      expect($content.querySelector('template')?.innerHTML).toBe('<img src="x">');
+      expect($content.querySelector('svg a')?.innerHTML).toBe('<text>SVG</text>');
+    });
+
+    it('innerHtml、append 和 prepend 也应该净化 HTML 字符串', () => {
+      dragScroll = new DragScroll(container);
+      dragScroll.innerHtml(() => '<div onclick="alert(1)">A</div><script>alert(2)</script>');
+      dragScroll.append('<div onclick="alert(3)">B</div>');
+      dragScroll.prepend('<script>alert(4)</script><div>C</div>');
+
+      expect(dragScroll.$content.innerHTML).toBe('<div>C</div><div>A</div><div>B</div>');
+    });
+
+    it('应该支持自定义 sanitize 函数', () => {
+      const sanitize = jest.fn((html: string) => html.replace(/<b>|<\/b>/g, ''));
+      dragScroll = new DragScroll(container, { content: '<div><b>Bold</b></div>', sanitize });
+      expect(sanitize).toHaveBeenCalledWith('<div><b>Bold</b></div>');
+      expect(dragScroll.$content.innerHTML).toBe('<div>Bold</div>');
+
+      const $node = document.createElement('p');
+      dragScroll.options.sanitize = () => $node;
+      dragScroll.innerHtml('<div>ignored</div>');
+      expect(dragScroll.$content.firstChild).toBe($node);
+    });
+
+    it('DOM 节点内容不应该经过 sanitize', () => {
+      const sanitize = jest.fn((html: string) => html);
+      const $item = document.createElement('div');
+      $item.setAttribute('onclick', 'handle()');
+      dragScroll = new DragScroll(container, { content: $item, sanitize });
+      expect(sanitize).not.toHaveBeenCalled();
+      expect($item.getAttribute('onclick')).toBe('handle()');
+    });
+
+    it('DragScroll.sanitize 应该返回净化后的 DocumentFragment', () => {
+      const fragment = DragScroll.sanitize('<span onclick="x()">Safe</span><script></script>');
+      expect(fragment.nodeType).toBe(Node.DOCUMENT_FRAGMENT_NODE);
+      expect(fragment.childNodes).toHaveLength(1);
+      expect((fragment.firstChild as HTMLElement).outerHTML).toBe('<span>Safe</span>');
+    });
+  });
+
+  describe('下拉刷新', () => {
+    const pull = (distance: number) => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 100, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 100 + distance, bubbles: true }));
+      jest.advanceTimersByTime(200);
+    };
+    const release = () => document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+    const flushPromises = async () => {
+      for (let i = 0; i < 5; i++) await Promise.resolve();
+    };
+
+    let onStateChange: jest.Mock;
+    let resolveRefresh: () => void;
+    let onRefresh: jest.Mock;
+
+    useFakeFrames();
+
+    beforeEach(() => {
+      onStateChange = jest.fn();
+      onRefresh = jest.fn(() => new Promise<void>(resolve => (resolveRefresh = resolve)));
+      dragScroll = new DragScroll(container, {
+        content: '<div>Content</div>',
+        pullToRefresh: { threshold: 60, max: 100, onRefresh, onStateChange },
+      });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('应该创建下拉刷新指示器', () => {
+      expect(dragScroll.$refresh?.parentElement).toBe(container);
+      expect(dragScroll.$refresh?.nextElementSibling).toBe(dragScroll.$content);
+      expect(dragScroll.$refresh?.className).toBe('drag-scroll-refresh drag-scroll-refresh-idle');
+      expect(dragScroll.refreshState).toBe('idle');
+    });
+
+    it('在顶部向下拖拽时应该按阻力增加下拉距离并更新状态', () => {
+      pull(80);
+      expect(dragScroll.currentY).toBe(0);
+      expect(dragScroll.refreshState).toBe('pulling');
+      expect(dragScroll.$refresh?.classList.contains('drag-scroll-refresh-pulling')).toBe(true);
+      expect(dragScroll.$content.style.transform).toBe('translate3d(0px, 40px, 0)');
+
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 220, bubbles: true }));
+      expect(dragScroll.refreshState).toBe('ready');
+      expect(dragScroll.$refresh?.style.transform).toBe('translate3d(0, 60px, 0)');
+
+      // 不超过最大下拉距离
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 600, bubbles: true }));
+      expect(dragScroll.$refresh?.style.transform).toBe('translate3d(0, 100px, 0)');
+      expect(onStateChange.mock.calls.map(([state]) => state)).toEqual(['pulling', 'ready']);
+    });
+
+    it('向上拖拽时应该先收起下拉距离再滚动内容', () => {
+      pull(80);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 80, bubbles: true }));
+      expect(dragScroll.refreshState).toBe('idle');
+      expect(dragScroll.currentY).toBe(20);
+    });
+
+    it('未达到触发距离时释放应该收起指示器', () => {
+      pull(80);
+      release();
+      jest.advanceTimersByTime(1000);
+      expect(onRefresh).not.toHaveBeenCalled();
+      expect(dragScroll.refreshState).toBe('idle');
+      expect(dragScroll.$content.style.transform).toBe('translate3d(0px, 0px, 0)');
+    });
+
+    it('超过触发距离释放后应该刷新，并保持指示器直到 Promise 完成', async () => {
+      pull(160);
+      release();
+      expect(dragScroll.refreshState).toBe('refreshing');
+      expect(onRefresh).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.$refresh?.style.transform).toBe('translate3d(0, 60px, 0)');
+      // 刷新中不能再次下拉
+      pull(160);
+      release();
+      expect(dragScroll.$refresh?.style.transform).toBe('translate3d(0, 60px, 0)');
+
+      resolveRefresh();
+      await flushPromises();
+      expect(dragScroll.refreshState).toBe('done');
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.refreshState).toBe('idle');
+      expect(dragScroll.$refresh?.style.transform).toBe('translate3d(0, 0px, 0)');
+      expect(onStateChange.mock.calls.map(([state]) => state)).toEqual(['ready', 'refreshing', 'done', 'idle']);
+    });
+
+    it('onRefresh 失败时也应该结束刷新', async () => {
+      onRefresh.mockImplementation(() => Promise.reject(new Error('failed')));
+      pull(160);
+      release();
+      await flushPromises();
+      expect(dragScroll.refreshState).toBe('done');
+    });
+
+    it('axis 为 x 时不应该开启下拉刷新', () => {
+      dragScroll.destroy();
+      dragScroll = new DragScroll(container, { axis: 'x', pullToRefresh: { onRefresh } });
+      expect(dragScroll.$refresh).toBeNull();
+    });
+  });
+
+  describe('滚动到边缘加载', () => {
+    const flushPromises = async () => {
+      for (let i = 0; i < 5; i++) await Promise.resolve();
+    };
+
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', ...options });
+      mockSize(dragScroll, 1000);
+    };
+
+    it('滚动到距离末尾阈值以内时应该触发一次 onReachEnd', () => {
+      const onReachEnd = jest.fn();
+      createDragScroll({ onReachEnd, reachThreshold: 100 });
+
+      dragScroll.scrollToY(400);
+      expect(onReachEnd).not.toHaveBeenCalled();
+      dragScroll.scrollToY(500);
+      dragScroll.scrollToY(600);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+
+      // 离开阈值范围后再次进入
+      dragScroll.scrollToY(300);
+      dragScroll.scrollToY(550);
+      expect(onReachEnd).toHaveBeenCalledTimes(2);
+    });
+
+    it('滚动回开头阈值以内时应该触发 onReachStart', () => {
+      const onReachStart = jest.fn();
+      createDragScroll({ onReachStart });
+
+      dragScroll.scrollToY(20);
+      expect(onReachStart).not.toHaveBeenCalled();
+      dragScroll.scrollToY(200);
+      dragScroll.scrollToY(30);
+      expect(onReachStart).toHaveBeenCalledTimes(1);
+    });
+
+    it('异步加载完成前不应该重复触发，完成后内容追加不应该改变滚动位置', async () => {
+      let resolveLoad!: () => void;
+      const onReachEnd = jest.fn(() => new Promise<void>(resolve => (resolveLoad = resolve)));
+      const onReachStart = jest.fn();
+      createDragScroll({ onReachEnd, onReachStart, footer: '<span>Loading...</span>' });
+
+      dragScroll.scrollToY(600);
+      expect(dragScroll.loading).toBe(true);
+      expect(dragScroll.$footer?.classList.contains('drag-scroll-footer-loading')).toBe(true);
+
+      dragScroll.scrollToY(300);
+      dragScroll.scrollToY(600);
+      dragScroll.scrollToY(0);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+      expect(onReachStart).not.toHaveBeenCalled();
+
+      dragScroll.scrollToY(600);
+      Object.defineProperty(dragScroll.$content, 'offsetHeight', { value: 2000, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { value: 2000, writable: true });
+      dragScroll.append('<div>More</div>');
+      resolveLoad();
+      await flushPromises();
+
+      expect(dragScroll.loading).toBe(false);
+      expect(dragScroll.$footer?.classList.contains('drag-scroll-footer-loading')).toBe(false);
+      expect(dragScroll.currentY).toBe(600);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('返回 thenable 时同样应该进入加载状态', async () => {
+      let resolveLoad!: () => void;
+      const onReachEnd = jest.fn(() => ({ then: (resolve: () => void) => (resolveLoad = resolve) }));
+      createDragScroll({ onReachEnd });
+
+      dragScroll.scrollToY(600);
+      expect(dragScroll.loading).toBe(true);
+      dragScroll.scrollToY(300);
+      dragScroll.scrollToY(600);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+
+      // Promise.resolve 在微任务中调用 then
+      await flushPromises();
+      // 完成后仍在阈值范围内，继续加载
+      resolveLoad();
+      await flushPromises();
+      expect(onReachEnd).toHaveBeenCalledTimes(2);
+    });
+
+    it('加载完成后仍在阈值范围内时应该继续加载，直到没有更多内容', async () => {
+      let page = 0;
+      const onReachEnd = jest.fn(() => {
+        if (++page === 3) dragScroll.hasMore = false;
+        return Promise.resolve();
+      });
+      createDragScroll({ onReachEnd });
+
+      dragScroll.scrollToY(600);
+      await flushPromises();
+      await flushPromises();
+      expect(onReachEnd).toHaveBeenCalledTimes(3);
+      expect(dragScroll.loading).toBe(false);
+    });
+
+    it('内容不足一屏时应该在初始化、刷新和替换内容后触发 onReachEnd', () => {
+      jest.useFakeTimers();
+      mockFrameInterval(16);
+      let height = 300;
+      // 每次加载追加 300px
+      const onReachEnd = jest.fn(() => {
+        height += 300;
+        dragScroll.append('<div>More</div>');
+      });
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', onReachEnd, reachThreshold: 100 });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { get: () => height, configurable: true });
+      expect(onReachEnd).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(16);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+      expect(height).toBe(600);
+
+      height = 300;
+      dragScroll.innerHtml('<div>Content</div>');
+      expect(onReachEnd).toHaveBeenCalledTimes(2);
+
+      height = 350;
+      dragScroll.refresh();
+      expect(onReachEnd).toHaveBeenCalledTimes(3);
+      expect(height).toBe(650);
+
+      restoreFrame();
+      jest.useRealTimers();
+    });
+
+    it('hasMore 为 false 时不应该触发 onReachEnd', () => {
+      const onReachEnd = jest.fn();
+      createDragScroll({ onReachEnd, hasMore: false, footer: () => document.createTextNode('No more') });
+
+      expect(dragScroll.hasMore).toBe(false);
+      expect(dragScroll.$footer?.classList.contains('drag-scroll-footer-no-more')).toBe(true);
+      dragScroll.scrollToY(600);
+      expect(onReachEnd).not.toHaveBeenCalled();
+
+      // 已在末尾时设置 hasMore 立即触发
+      dragScroll.hasMore = true;
+      expect(dragScroll.$footer?.classList.contains('drag-scroll-footer-no-more')).toBe(false);
+      expect(onReachEnd).toHaveBeenCalledTimes(1);
+      dragScroll.scrollToY(300);
+      dragScroll.scrollToY(600);
+      expect(onReachEnd).toHaveBeenCalledTimes(2);
+    });
+
+    it('加载区域应该始终位于内容末尾', () => {
+      createDragScroll({ footer: '<span>Footer</span>' });
+      expect(dragScroll.$footer?.textContent).toBe('Footer');
+
+      dragScroll.append('<div class="item">A</div>');
+      dragScroll.prepend('<div class="item">B</div>');
+      expect(dragScroll.$content.lastElementChild).toBe(dragScroll.$footer);
+
+      dragScroll.innerHtml('<div class="item">C</div>');
+      expect(dragScroll.$content.children).toHaveLength(2);
+      expect(dragScroll.$content.lastElementChild).toBe(dragScroll.$footer);
+    });
+  });
+
+  describe('虚拟列表', () => {
+    const getItems = () => Array.from(dragScroll.$content.querySelectorAll<HTMLElement>('.drag-scroll-item'));
+    const getIndexes = () => getItems().map($item => Number($item.dataset.index));
+
+    const createDragScroll = (virtual: Partial<DragScrollVirtualOptions> = {}, options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, {
+        virtual: { itemCount: 10000, itemSize: 50, renderItem: index => `Item ${index}`, ...virtual },
+        ...options,
+      });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      dragScroll.refresh();
+    };
+
+    it('应该只渲染可见区域和 overscan 范围内的列表项', () => {
+      createDragScroll();
+      expect(container.classList.contains('drag-scroll-virtual')).toBe(true);
+      expect(dragScroll.$content.style.height).toBe('500000px');
+      expect(getIndexes()).toEqual(Array.from({ length: 12 }, (_, index) => index));
+      expect(getItems()[2].textContent).toBe('Item 2');
+      expect(getItems()[2].style.transform).toBe('translate3d(0, 100px, 0)');
+    });
+
+    it('滚动时应该回收复用列表项元素', () => {
+      const renderItem = jest.fn((index: number) => `Item ${index}`);
+      createDragScroll({ renderItem, overscan: 1 });
+      const items = getItems();
+      renderItem.mockClear();
+
+      dragScroll.scrollToY(5000);
+      expect(getIndexes().sort((a, b) => a - b)).toEqual([99, 100, 101, 102, 103, 104, 105, 106, 107, 108, 109]);
+      // 原有的 10 个元素全部复用，只新建 1 个
+      expect(getItems().filter($item => items.includes($item))).toHaveLength(10);
+      expect(renderItem).toHaveBeenCalledWith(100, expect.any(HTMLElement));
+
+      // 范围未变化时不重新渲染
+      renderItem.mockClear();
+      dragScroll.scrollToY(5010);
+      expect(renderItem).not.toHaveBeenCalled();
+    });
+
+    it('应该按列表项总尺寸计算滚动范围', () => {
+      const onChange = jest.fn();
+      createDragScroll({}, { onChange });
+      expect(dragScroll.canDrag).toBe(true);
+      dragScroll.scrollToY(1e7);
+      expect(dragScroll.currentY).toBe(499600);
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ y: 499600 }));
+      expect(getIndexes()).toContain(9999);
+    });
+
+    it('计算滚动范围时不应该读取内容的 scrollWidth 和 scrollHeight', () => {
+      createDragScroll();
+      const scrollWidth = jest.fn(() => 0);
+      const scrollHeight = jest.fn(() => 0);
+      Object.defineProperty(dragScroll.$content, 'scrollWidth', { get: scrollWidth, configurable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', { get: scrollHeight, configurable: true });
+      dragScroll.scrollToY(5000);
+      expect(dragScroll.currentY).toBe(5000);
+      expect(scrollWidth).not.toHaveBeenCalled();
+      expect(scrollHeight).not.toHaveBeenCalled();
+    });
+
+    it('scrollToIndex 应该按对齐方式滚动到指定列表项', async () => {
+      createDragScroll({ itemSize: index => (index % 2 ? 100 : 50) });
+      await dragScroll.scrollToIndex(100, { animate: false });
+      expect(dragScroll.currentY).toBe(7500);
+
+      await dragScroll.scrollToIndex(100, { align: 'center', animate: false });
+      expect(dragScroll.currentY).toBe(7325);
+      expect(getIndexes()).toContain(100);
+
+      await expect(dragScroll.scrollToIndex(10000)).rejects.toThrow('index 10000 is out of range');
+    });
+
+    it('setItemCount 应该更新列表项数量并限制滚动位置', () => {
+      createDragScroll();
+      dragScroll.scrollToY(10000);
+      dragScroll.setItemCount(100);
+      expect(dragScroll.$content.style.height).toBe('5000px');
+      expect(dragScroll.currentY).toBe(4600);
+      expect(Math.max(...getIndexes())).toBe(99);
+    });
+
+    it('加载区域应该定位在所有列表项之后，并计入滚动范围', () => {
+      createDragScroll({ itemCount: 100 }, { footer: '<span>Loading</span>' });
+      const $footer = dragScroll.$footer!;
+      Object.defineProperty($footer, 'offsetHeight', { value: 60, writable: true });
+      dragScroll.refresh();
+      expect($footer.style.transform).toBe('translate3d(0, 5000px, 0)');
+      expect(dragScroll.$content.style.height).toBe('5060px');
+      dragScroll.scrollToY(1e7);
+      expect(dragScroll.currentY).toBe(4660);
+
+      dragScroll.setItemCount(200);
+      expect($footer.style.transform).toBe('translate3d(0, 10000px, 0)');
+      expect(dragScroll.$content.style.height).toBe('10060px');
+    });
+
+    it('measure 应该按实际尺寸修正位置，并保持可见的列表项不动', () => {
+      let sizeOf: (index: number) => number = () => 50;
+      createDragScroll({
+        itemCount: 100,
+        measure: true,
+        renderItem: (index, $item) => {
+          if (!Object.getOwnPropertyDescriptor($item, 'offsetHeight')) {
+            Object.defineProperty($item, 'offsetHeight', { get: () => sizeOf(Number($item.dataset.index)), configurable: true });
+          }
+          return `Item ${index}`;
+        },
+      });
+      dragScroll.scrollToY(2000);
+      expect(getIndexes().sort((a, b) => a - b)[0]).toBe(37);
+
+      sizeOf = index => (index <= 45 ? 100 : 50);
+      dragScroll.refresh();
+      // 37~39 在可见区域之前，各增加 50px
+      expect(dragScroll.currentY).toBe(2150);
+      const $item = getItems().find($el => $el.dataset.index === '40')!;
+      expect($item.style.transform).toBe('translate3d(0, 2150px, 0)');
+      expect(parseFloat(dragScroll.$content.style.height)).toBeGreaterThan(5000);
+    });
+
+    it('非虚拟列表模式下 scrollToIndex 应该滚动到第 index 个子元素', async () => {
+      dragScroll = new DragScroll(container, { content: '<div>A</div><div>B</div>' });
+      const scrollToElement = jest.spyOn(dragScroll, 'scrollToElement').mockResolvedValue();
+      await dragScroll.scrollToIndex(1);
+      expect(scrollToElement).toHaveBeenCalledWith(dragScroll.$content.children[1], {});
+      await expect(dragScroll.scrollToIndex(2)).rejects.toThrow('index 2 is out of range');
+    });
+  });
+
+  describe('snap 吸附', () => {
+    const drag = (moves: number[], pause = 0) => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 500, bubbles: true }));
+      moves.forEach(clientY => {
+        jest.advanceTimersByTime(16);
+        document.dispatchEvent(new MouseEvent('pointermove', { clientY, bubbles: true }));
+      });
+      jest.advanceTimersByTime(pause);
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+    };
+
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', ...options });
+      mockSize(dragScroll, 1000);
+    };
+
+    useFakeFrames();
+
+    it('键盘和点击滚动条滑轨应该移动到相邻的吸附点', async () => {
+      const onSnap = jest.fn();
+      createDragScroll({ snap: 100, onSnap, keyboard: true });
+      const press = async (key: string) => {
+        const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+        container.dispatchEvent(event);
+        jest.advanceTimersByTime(1000);
+        await Promise.resolve();
+        return event;
+      };
+
+      await press('ArrowDown');
+      expect(dragScroll.currentY).toBe(100);
+      expect(onSnap).toHaveBeenLastCalledWith(1);
+      await press('End');
+      expect(dragScroll.currentY).toBe(600);
+      expect(onSnap).toHaveBeenLastCalledWith(6);
+      expect((await press('ArrowDown')).defaultPrevented).toBe(false);
+
+      const scrollbar = container.querySelector<HTMLElement>('.drag-scroll-bar')!;
+      const thumb = container.querySelector<HTMLElement>('.drag-scroll-bar-thumb')!;
+      thumb.getBoundingClientRect = () => ({ top: (dragScroll.currentY / 600) * 240, height: 160 }) as DOMRect;
+      scrollbar.dispatchEvent(new PointerEvent('pointerdown', { clientY: 10, bubbles: true }));
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(dragScroll.currentY).toBe(500);
+      expect(onSnap).toHaveBeenLastCalledWith(5);
+    });
+
+    it('停顿后释放应该吸附到最近的间隔点', async () => {
+      const onSnap = jest.fn();
+      createDragScroll({ snap: 100, onSnap });
+      drag([420, 370], 200);
+      expect(dragScroll.currentY).toBe(130);
+
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(100);
+      await Promise.resolve();
+      expect(onSnap).toHaveBeenCalledTimes(1);
+      expect(onSnap).toHaveBeenCalledWith(1);
+    });
+
+    it('快速滑动释放应该按释放速度选择更远的吸附点', async () => {
+      const onSnap = jest.fn();
+      createDragScroll({ snap: 100, onSnap });
+      drag([400, 300]);
+      expect(dragScroll.currentY).toBe(200);
+
+      jest.advanceTimersByTime(1000);
+      // 预计停止位置 200 + 30 * 0.92 / 0.08 = 545
+      expect(dragScroll.currentY).toBe(500);
+      await Promise.resolve();
+      expect(onSnap).toHaveBeenCalledWith(5);
+    });
+
+    it('page 吸附时 next/prev 应该按容器尺寸翻页', async () => {
+      const onSnap = jest.fn();
+      createDragScroll({ snap: 'page', onSnap });
+
+      const next = dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      await next;
+      expect(dragScroll.currentY).toBe(400);
+
+      // 最后一页限制在最大滚动距离
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(600);
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(600);
+
+      dragScroll.prev();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(dragScroll.currentY).toBe(400);
+      expect(onSnap.mock.calls.map(([index]) => index)).toEqual([1, 2, 1]);
+    });
+
+    it('按选择器吸附时应该按对齐方式对齐元素', () => {
+      createDragScroll({
+        content: Array.from({ length: 5 }, (_, index) => `<div class="card">${index}</div>`).join(''),
+        snap: '.card',
+        snapAlign: 'center',
+      });
+      dragScroll.$content.getBoundingClientRect = () => ({ top: -dragScroll.currentY, left: 0 }) as DOMRect;
+      dragScroll.$content.querySelectorAll<HTMLElement>('.card').forEach(($card, index) => {
+        $card.getBoundingClientRect = () => ({ top: index * 200 - dragScroll.currentY, left: 0, height: 200, width: 300 }) as DOMRect;
+      });
+
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(100);
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(300);
+
+      drag([480], 200);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(300);
+    });
+
+    it('滚轮滚动停止后应该吸附', () => {
+      createDragScroll({ snap: 100 });
+      container.dispatchEvent(new WheelEvent('wheel', { deltaY: 30.5, cancelable: true }));
+      container.dispatchEvent(new WheelEvent('wheel', { deltaY: 30.5, cancelable: true }));
+      expect(dragScroll.currentY).toBe(61);
+
+      jest.advanceTimersByTime(100);
+      expect(dragScroll.currentY).toBe(61);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(100);
+    });
+
+    it('未设置 snap 时 next/prev 应该按容器尺寸翻页', () => {
+      createDragScroll();
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(400);
+      drag([480], 200);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(420);
+    });
+  });
+
+  describe('pager 分页', () => {
+    const content = Array.from({ length: 4 }, (_, index) => `<div class="slide">${index}</div>`).join('');
+    const drag = (moves: number[], pause = 0) => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 500, bubbles: true }));
+      moves.forEach(clientY => {
+        jest.advanceTimersByTime(16);
+        document.dispatchEvent(new MouseEvent('pointermove', { clientY, bubbles: true }));
+      });
+      jest.advanceTimersByTime(pause);
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+    };
+    const getDots = () => Array.from(container.querySelectorAll<HTMLElement>('.drag-scroll-dot'));
+
+    const createDragScroll = (pager: DragScrollOptions['pager'] = true, options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content, pager, ...options });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      Object.defineProperty(dragScroll.$content, 'scrollHeight', {
+        get: () => dragScroll.$content.children.length * 400,
+        configurable: true,
+      });
+      dragScroll.refresh();
+    };
+
+    useFakeFrames();
+
+    it('应该将每个子元素作为一页并生成分页指示点', () => {
+      createDragScroll();
+      expect(container.classList.contains('drag-scroll-pager')).toBe(true);
+      expect(dragScroll.$content.querySelectorAll('.drag-scroll-page')).toHaveLength(4);
+      expect(getDots()).toHaveLength(4);
+      expect(getDots()[0].classList.contains('drag-scroll-dot-active')).toBe(true);
+      expect(getDots()[0].getAttribute('aria-current')).toBe('true');
+      expect(dragScroll.canDrag).toBe(true);
+      expect(dragScroll.page).toBe(0);
+    });
+
+    it('拖拽超过距离阈值时应该切换页面，否则回到当前页', () => {
+      const onPageChange = jest.fn();
+      createDragScroll({ onPageChange });
+      drag([450, 400], 200);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(400);
+      expect(dragScroll.page).toBe(1);
+      expect(onPageChange).toHaveBeenCalledWith(1);
+      expect(getDots()[1].classList.contains('drag-scroll-dot-active')).toBe(true);
+
+      drag([470, 450], 200);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.currentY).toBe(400);
+      expect(onPageChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('快速滑动超过速度阈值时应该切换页面', () => {
+      createDragScroll();
+      drag([480, 440]);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(1);
+      expect(dragScroll.currentY).toBe(400);
+    });
+
+    it('goTo 应该切换到指定页，点击指示点也应该切换', async () => {
+      createDragScroll();
+      const goTo = dragScroll.goTo(3);
+      jest.advanceTimersByTime(1000);
+      await goTo;
+      expect(dragScroll.currentY).toBe(1200);
+
+      await dragScroll.goTo(1, false);
+      expect(dragScroll.currentY).toBe(400);
+      await expect(dragScroll.goTo(4)).rejects.toThrow('page 4 is out of range');
+
+      getDots()[2].dispatchEvent(new PointerEvent('pointerdown', { bubbles: true }));
+      expect(dragScroll.isDragging).toBe(false);
+      getDots()[2].click();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(2);
+      expect(dragScroll.currentY).toBe(800);
+    });
+
+    it('不循环时首尾页不能继续切换', () => {
+      createDragScroll();
+      dragScroll.prev();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(0);
+      dragScroll.goTo(3, false);
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(3);
+      expect(dragScroll.currentY).toBe(1200);
+    });
+
+    it('循环时应该通过克隆页在首尾之间无缝切换', async () => {
+      const onPageChange = jest.fn();
+      createDragScroll({ loop: true, onPageChange });
+      const clones = dragScroll.$content.querySelectorAll('.drag-scroll-page-clone');
+      expect(clones).toHaveLength(2);
+      expect(clones[0].textContent).toBe('3');
+      expect(clones[0].getAttribute('aria-hidden')).toBe('true');
+      expect(getDots()).toHaveLength(4);
+      expect(dragScroll.currentY).toBe(400);
+
+      dragScroll.prev();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(dragScroll.page).toBe(3);
+      expect(dragScroll.currentY).toBe(1600);
+
+      dragScroll.next();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(dragScroll.page).toBe(0);
+      expect(dragScroll.currentY).toBe(400);
+      expect(onPageChange.mock.calls.map(([index]) => index)).toEqual([3, 0]);
+    });
+
+    it('循环切换到克隆页的动画被中断时应该移到对应的真实页面', async () => {
+      createDragScroll({ loop: true });
+      const prev = dragScroll.prev();
+      jest.advanceTimersByTime(160);
+      expect(dragScroll.page).toBe(3);
+      expect(dragScroll.currentY).toBeLessThan(400);
+
+      // 动画过程中点击，停在最后一页
+      drag([]);
+      await expect(prev).rejects.toThrow('cancelled');
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(3);
+      expect(dragScroll.currentY).toBe(1600);
+
+      // 动画过程中拖拽，位置从真实页面继续计算
+      const next = dragScroll.next();
+      jest.advanceTimersByTime(160);
+      expect(dragScroll.page).toBe(0);
+      expect(dragScroll.currentY).toBeGreaterThan(1600);
+      drag([490], 200);
+      await expect(next).rejects.toThrow('cancelled');
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(0);
+      expect(dragScroll.currentY).toBe(400);
+    });
+
+    it('切换动画过程中点击应该继续切换到目标页', () => {
+      const onPageChange = jest.fn();
+      createDragScroll({ onPageChange });
+      dragScroll.goTo(1).catch(() => {});
+      jest.advanceTimersByTime(40);
+      drag([]);
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(1);
+      expect(dragScroll.currentY).toBe(400);
+      expect(onPageChange.mock.calls.map(([index]) => index)).toEqual([1]);
+    });
+
+    it('键盘和点击滚动条滑轨应该按页切换', () => {
+      const onPageChange = jest.fn();
+      createDragScroll({ onPageChange }, { keyboard: true });
+      const press = (key: string) => {
+        const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+        container.dispatchEvent(event);
+        jest.advanceTimersByTime(1000);
+        return event;
+      };
+
+      expect(press('ArrowDown').defaultPrevented).toBe(true);
+      expect(dragScroll.page).toBe(1);
+      expect(dragScroll.currentY).toBe(400);
+      press(' ');
+      expect(dragScroll.currentY).toBe(800);
+      press('End');
+      expect(dragScroll.page).toBe(3);
+      // 不循环时最后一页之后不再切换，不阻止默认行为
+      expect(press('PageDown').defaultPrevented).toBe(false);
+      press('Home');
+      expect(dragScroll.page).toBe(0);
+      expect(dragScroll.currentY).toBe(0);
+      expect(onPageChange.mock.calls.map(([index]) => index)).toEqual([1, 2, 3, 0]);
+
+      const scrollbar = container.querySelector<HTMLElement>('.drag-scroll-bar')!;
+      const thumb = container.querySelector<HTMLElement>('.drag-scroll-bar-thumb')!;
+      thumb.getBoundingClientRect = () => ({ top: (dragScroll.currentY / 1200) * 300, height: 100 }) as DOMRect;
+      scrollbar.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(1);
+      expect(dragScroll.currentY).toBe(400);
+    });
+
+    it('自动播放应该定时切换页面，并在鼠标悬停和拖拽时暂停', () => {
+      createDragScroll({ autoplay: 1000 });
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(1);
+
+      container.dispatchEvent(new PointerEvent('pointerenter'));
+      jest.advanceTimersByTime(3000);
+      expect(dragScroll.page).toBe(1);
+      container.dispatchEvent(new PointerEvent('pointerleave'));
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(2);
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 500, bubbles: true }));
+      jest.advanceTimersByTime(3000);
+      expect(dragScroll.page).toBe(2);
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(3);
+
+      // 最后一页回到第一页
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.page).toBe(0);
+    });
+
+    it('dots 为 false 时不应该生成分页指示点', () => {
+      createDragScroll({ dots: false });
+      expect(getDots()).toHaveLength(0);
+    });
+  });
+
+  describe('事件', () => {
+    useFakeFrames();
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>', reachThreshold: 50 });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('on/off 应该支持多个监听函数和移除监听', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      expect(dragScroll.on('scroll', first).on('scroll', second)).toBe(dragScroll);
+
+      dragScroll.scrollToY(100);
+      expect(first).toHaveBeenCalledWith(expect.objectContaining({ y: 100 }));
+      expect(second).toHaveBeenCalledTimes(1);
+
+      dragScroll.off('scroll', first);
+      dragScroll.scrollToY(200);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+
+      dragScroll.off('scroll');
+      dragScroll.scrollToY(300);
+      expect(second).toHaveBeenCalledTimes(2);
+    });
+
+    it('once 应该只触发一次，并可以通过 off 提前移除', () => {
+      const listener = jest.fn();
+      dragScroll.once('scroll', listener);
+      dragScroll.scrollToY(100);
+      dragScroll.scrollToY(200);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      const removed = jest.fn();
+      dragScroll.once('scroll', removed).off('scroll', removed);
+      dragScroll.scrollToY(300);
+      expect(removed).not.toHaveBeenCalled();
+    });
+
+    it('应该在拖拽和惯性滚动时触发对应事件', () => {
+      const events: string[] = [];
+      (['dragstart', 'drag', 'dragend', 'momentumstart', 'momentumend'] as const).forEach(type => {
+        dragScroll.on(type, () => events.push(type));
+      });
+      const drag = jest.fn();
+      dragScroll.on('drag', drag);
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 200, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      expect(drag).toHaveBeenCalledWith(expect.objectContaining({ x: 0, y: 100, isDragging: true, phase: 'drag' }));
+
+      jest.advanceTimersByTime(5000);
+      expect(events).toEqual(['dragstart', 'drag', 'momentumstart', 'dragend', 'momentumend']);
+    });
+
+    it('惯性滚动被中断时应该触发 momentumend', () => {
+      const momentumend = jest.fn();
+      dragScroll.on('momentumend', momentumend);
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 200, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      jest.advanceTimersByTime(32);
+
+      const { currentY } = dragScroll;
+      dragScroll.scrollToY(0);
+      expect(momentumend).toHaveBeenCalledTimes(1);
+      expect(momentumend).toHaveBeenCalledWith(expect.objectContaining({ y: currentY }));
+    });
+
+    it('进入开头和末尾阈值范围时应该触发 reachstart、reachend', () => {
+      const reachstart = jest.fn();
+      const reachend = jest.fn();
+      dragScroll.on('reachstart', reachstart).on('reachend', reachend);
+
+      dragScroll.scrollToY(30);
+      expect(reachstart).not.toHaveBeenCalled();
+      dragScroll.scrollToY(560);
+      dragScroll.scrollToY(600);
+      expect(reachend).toHaveBeenCalledTimes(1);
+      dragScroll.scrollToY(20);
+      expect(reachstart).toHaveBeenCalledTimes(1);
+      expect(reachstart).toHaveBeenCalledWith(expect.objectContaining({ y: 20 }));
+    });
+
+    it('容器尺寸改变时应该触发 resize', () => {
+      const resize = jest.fn();
+      dragScroll.on('resize', resize);
+      dragScroll.refresh();
+      expect(resize).toHaveBeenCalledWith({ width: 0, height: 400 });
+
+      dragScroll.refresh();
+      expect(resize).toHaveBeenCalledTimes(1);
+      Object.defineProperty(container, 'clientWidth', { value: 300, writable: true });
+      dragScroll.resize(300, 400);
+      expect(resize).toHaveBeenLastCalledWith({ width: 300, height: 400 });
+    });
+
+    it('应该在 $container 上派发 CustomEvent', () => {
+      const onScroll = jest.fn();
+      const onDestroy = jest.fn();
+      container.addEventListener('drag-scroll:scroll', onScroll);
+      container.addEventListener('drag-scroll:destroy', onDestroy);
+
+      dragScroll.scrollToY(100);
+      expect(onScroll).toHaveBeenCalledTimes(1);
+      const event = onScroll.mock.calls[0][0] as CustomEvent;
+      expect(event.detail).toEqual(expect.objectContaining({ y: 100 }));
+      expect(event.bubbles).toBe(false);
+
+      dragScroll.destroy();
+      expect(onDestroy).toHaveBeenCalledTimes(1);
+    });
+
+    it('销毁时应该触发 destroy 并移除所有监听', () => {
+      const destroy = jest.fn();
+      const scroll = jest.fn();
+      dragScroll.on('destroy', destroy).on('scroll', scroll);
+      dragScroll.destroy();
+      dragScroll.destroy();
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(dragScroll['_listeners']).toEqual({});
+    });
+  });
+
+  describe('滚动状态', () => {
+    useFakeFrames();
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>' });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('getState 应该返回滚动范围、进度和方向', () => {
+      expect(dragScroll.getState()).toEqual(
+        expect.objectContaining({
+          x: 0,
+          y: 0,
+          maxX: 0,
+          maxY: 600,
+          progress: 0,
+          direction: 'none',
+          phase: 'idle',
+          isDragging: false,
+          isAnimating: false,
+        }),
+      );
+
+      dragScroll.scrollToY(300);
+      expect(dragScroll.getState()).toEqual(
+        expect.objectContaining({ y: 300, progress: 0.5, progressX: 0, progressY: 0.5, direction: 'down' }),
+      );
+
+      dragScroll.scrollToY(150);
+      expect(dragScroll.getState()).toEqual(expect.objectContaining({ progress: 0.25, direction: 'up', phase: 'idle' }));
+
+      // 位置未变化时保持上次的方向
+      dragScroll.scrollToY(150);
+      expect(dragScroll.getState().direction).toBe('up');
+    });
+
+    it('应该区分拖拽、惯性滚动和静止阶段', () => {
+      const phases: string[] = [];
+      dragScroll.on('scroll', state => {
+        if (phases[phases.length - 1] !== state.phase) phases.push(state.phase);
+      });
+
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      expect(dragScroll.getState()).toEqual(expect.objectContaining({ phase: 'drag', isDragging: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 200, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      expect(dragScroll.getState()).toEqual(expect.objectContaining({ phase: 'momentum', isDragging: false, isAnimating: true }));
+
+      jest.advanceTimersByTime(5000);
+      expect(dragScroll.getState()).toEqual(expect.objectContaining({ phase: 'idle', isAnimating: false, velocity: 0 }));
+      expect(phases).toEqual(['drag', 'momentum']);
+    });
+
+    it('应该区分调用 API 和滚轮触发的滚动', () => {
+      const scroll = jest.fn();
+      dragScroll.on('scroll', scroll);
+
+      dragScroll.scrollTo({ y: 200 }).catch(() => {});
+      jest.advanceTimersByTime(16);
+      expect(scroll).toHaveBeenLastCalledWith(expect.objectContaining({ phase: 'programmatic', isAnimating: true }));
+      jest.advanceTimersByTime(1000);
+      expect(dragScroll.getState().phase).toBe('idle');
+
+      container.dispatchEvent(new WheelEvent('wheel', { deltaY: 30, cancelable: true }));
+      expect(scroll).toHaveBeenLastCalledWith(expect.objectContaining({ y: 230, phase: 'wheel', direction: 'down' }));
+      expect(dragScroll.getState().phase).toBe('idle');
+    });
+
+    it('滚动速度不应该被取整', () => {
+      container.dispatchEvent(new PointerEvent('pointerdown', { clientY: 300, bubbles: true }));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 290, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+
+      const { velocity, velocityY } = dragScroll.getState();
+      expect(velocity).toBe(dragScroll.velocity);
+      expect(velocityY).toBe(dragScroll.velocity);
+      expect(velocity).not.toBe(+velocity.toFixed(1));
+    });
+  });
+
+  describe('拖拽阈值和点击', () => {
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, {
+        content: '<a id="link" href="#">Link</a><input id="input" /><div contenteditable="true"><span id="editable">Text</span></div>',
+        ...options,
+      });
+      mockSize(dragScroll, 1000);
+    };
+
+    const press = (target: Element, clientY: number) => {
+      target.dispatchEvent(new PointerEvent('pointerdown', { clientY, bubbles: true }));
+    };
+
+    it('未超过拖拽阈值时内容不应该跟随', () => {
+      const onDragging = jest.fn();
+      createDragScroll({ dragThreshold: 10, onDragging });
+      press(container, 300);
+
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 292, bubbles: true }));
+      // 垂直滚动时不计算水平位移
+      document.dispatchEvent(new MouseEvent('pointermove', { clientX: 50, clientY: 295, bubbles: true }));
+      expect(dragScroll.currentY).toBe(0);
+      expect(onDragging).not.toHaveBeenCalled();
+
+      // 超过阈值后从按下位置开始计算位移
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 280, bubbles: true }));
+      expect(dragScroll.currentY).toBe(20);
+      expect(onDragging).toHaveBeenCalledTimes(1);
+    });
+
+    it('拖拽后应该阻止释放时触发的 click', () => {
+      createDragScroll();
+      const link = dragScroll.$content.querySelector('#link')!;
+      const onClick = jest.fn();
+      link.addEventListener('click', onClick);
+
+      press(link, 300);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 250, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      const click = new MouseEvent('click', { bubbles: true, cancelable: true });
+      link.dispatchEvent(click);
+      expect(onClick).not.toHaveBeenCalled();
+      expect(click.defaultPrevented).toBe(true);
+
+      // 只阻止一次
+      link.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('未拖拽时不应该阻止 click，也不应该触发拖拽开始和结束', () => {
+      const onDragStart = jest.fn();
+      const onDragEnd = jest.fn();
+      createDragScroll({ onDragStart, onDragEnd });
+      const link = dragScroll.$content.querySelector('#link')!;
+      const onClick = jest.fn();
+      link.addEventListener('click', onClick);
+
+      press(link, 300);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 297, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      link.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      expect(onClick).toHaveBeenCalledTimes(1);
+      expect(onDragStart).not.toHaveBeenCalled();
+      expect(onDragEnd).not.toHaveBeenCalled();
+    });
+
+    it('在容器外释放未触发 click 时不应该阻止之后的 click', () => {
+      jest.useFakeTimers();
+      createDragScroll();
+      const link = dragScroll.$content.querySelector('#link')!;
+      const onClick = jest.fn();
+      link.addEventListener('click', onClick);
+
+      press(link, 300);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 250, bubbles: true }));
+      document.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+      jest.runOnlyPendingTimers();
+      link.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      expect(onClick).toHaveBeenCalledTimes(1);
+      jest.useRealTimers();
+    });
+
+    it('默认不应该在表单控件和可编辑元素上开始拖拽', () => {
+      const onDragStart = jest.fn();
+      createDragScroll({ onDragStart });
+      press(dragScroll.$content.querySelector('#input')!, 300);
+      press(dragScroll.$content.querySelector('#editable')!, 300);
+      expect(onDragStart).not.toHaveBeenCalled();
+      expect(dragScroll.isDragging).toBe(false);
+
+      press(dragScroll.$content.querySelector('#link')!, 300);
+      expect(dragScroll.isDragging).toBe(true);
+      document.dispatchEvent(new MouseEvent('pointermove', { clientY: 250, bubbles: true }));
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该支持自定义 ignore 选择器', () => {
+      createDragScroll({ ignore: '#link' });
+      press(dragScroll.$content.querySelector('#link')!, 300);
+      expect(dragScroll.isDragging).toBe(false);
+
+      press(dragScroll.$content.querySelector('#input')!, 300);
+      expect(dragScroll.isDragging).toBe(true);
+    });
+
+    it('ignore 只应该匹配容器内的元素', () => {
+      const wrapper = document.createElement('div');
+      wrapper.className = 'no-drag';
+      document.body.appendChild(wrapper);
+      wrapper.appendChild(container);
+      createDragScroll({ ignore: '.no-drag' });
+
+      press(dragScroll.$content.querySelector('#link')!, 300);
+      expect(dragScroll.isDragging).toBe(true);
+      document.body.appendChild(container);
+      wrapper.remove();
+    });
+  });
+
+  describe('多指针', () => {
+    const pointer = (type: string, pointerId: number, clientY: number, target: EventTarget = document) => {
+      target.dispatchEvent(new PointerEvent(type, { pointerId, clientY, bubbles: true }));
+    };
+
+    beforeEach(() => {
+      dragScroll = new DragScroll(container, { content: '<div>Content</div>' });
+      mockSize(dragScroll, 1000);
+    });
+
+    it('应该只在拖拽过程中监听指针移动和抬起', () => {
+      const addEventListener = jest.spyOn(document, 'addEventListener');
+      const removeEventListener = jest.spyOn(document, 'removeEventListener');
+      pointer('pointermove', 1, 200);
+      expect(dragScroll.currentY).toBe(0);
+
+      pointer('pointerdown', 1, 300, container);
+      expect(addEventListener.mock.calls.map(([type]) => type)).toEqual(['pointermove', 'pointerup', 'pointercancel']);
+      pointer('pointerup', 1, 300);
+      expect(removeEventListener.mock.calls.map(([type]) => type)).toEqual(['pointermove', 'pointerup', 'pointercancel']);
+
+      addEventListener.mockRestore();
+      removeEventListener.mockRestore();
+    });
+
+    it('拖拽过程中应该忽略其他指针', () => {
+      const onDragStart = jest.fn();
+      dragScroll.on('dragstart', onDragStart);
+      pointer('pointerdown', 1, 300, container);
+      pointer('pointermove', 1, 200);
+      expect(dragScroll.currentY).toBe(100);
+
+      // 第二根手指按下、移动、抬起都不影响当前拖拽
+      pointer('pointerdown', 2, 100, container);
+      pointer('pointermove', 2, 0);
+      expect(dragScroll.currentY).toBe(100);
+      pointer('pointerup', 2, 0);
+      expect(dragScroll.isDragging).toBe(true);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+
+      pointer('pointermove', 1, 150);
+      expect(dragScroll.currentY).toBe(150);
+      pointer('pointercancel', 1, 150);
+      expect(dragScroll.isDragging).toBe(false);
+    });
+
+    it('超过拖拽阈值后应该捕获指针', () => {
+      const setPointerCapture = jest.fn();
+      container.setPointerCapture = setPointerCapture;
+      pointer('pointerdown', 3, 300, container);
+      pointer('pointermove', 3, 298);
+      expect(setPointerCapture).not.toHaveBeenCalled();
+      pointer('pointermove', 3, 250);
+      pointer('pointermove', 3, 200);
+      expect(setPointerCapture).toHaveBeenCalledTimes(1);
+      expect(setPointerCapture).toHaveBeenCalledWith(3);
+      pointer('pointerup', 3, 200);
+    });
+
+    it('多个实例应该只处理各自的拖拽', () => {
+      const other = document.createElement('div');
+      document.body.appendChild(other);
+      const otherDragScroll = new DragScroll(other, { content: '<div>Content</div>' });
+      Object.defineProperty(other, 'clientHeight', { value: 400, writable: true });
+      Object.defineProperty(otherDragScroll.$content, 'offsetHeight', { value: 1000, writable: true });
+      Object.defineProperty(otherDragScroll.$content, 'scrollHeight', { value: 1000, writable: true });
+
+      pointer('pointerdown', 1, 300, other);
+      pointer('pointermove', 1, 200);
+      pointer('pointerup', 1, 200);
+      expect(otherDragScroll.currentY).toBe(100);
+      expect(dragScroll.currentY).toBe(0);
+
+      otherDragScroll.destroy();
+      other.remove();
+    });
+  });
+
+  describe('嵌套实例', () => {
+    let inner: DragScroll;
+    let innerContainer: HTMLElement;
+
+    const pointer = (type: string, clientX: number, clientY: number, target: EventTarget = document) => {
+      target.dispatchEvent(new PointerEvent(type, { pointerId: 1, clientX, clientY, bubbles: true }));
+    };
+
+    // 外层垂直滚动，内层可滚动 100px
+    const createNested = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content: '<div class="inner"></div>' });
+      mockSize(dragScroll, 1000);
+
+      innerContainer = dragScroll.$content.querySelector('.inner')!;
+      inner = new DragScroll(innerContainer, { content: '<div>Inner</div>', ...options });
+      Object.defineProperty(innerContainer, 'clientWidth', { value: 300, writable: true });
+      Object.defineProperty(innerContainer, 'clientHeight', { value: 200, writable: true });
+      Object.defineProperty(inner.$content, 'offsetWidth', { value: 400, writable: true });
+      Object.defineProperty(inner.$content, 'scrollWidth', { value: 400, writable: true });
+      Object.defineProperty(inner.$content, 'offsetHeight', { value: 300, writable: true });
+      Object.defineProperty(inner.$content, 'scrollHeight', { value: 300, writable: true });
+    };
+
+    afterEach(() => {
+      inner.destroy();
+    });
+
+    it('应该按初始拖拽方向决定由内层还是外层实例拖拽', () => {
+      createNested({ axis: 'x' });
+      pointer('pointerdown', 200, 300, innerContainer);
+      pointer('pointermove', 150, 290);
+      expect(inner.currentX).toBe(50);
+      expect(dragScroll.isDragging).toBe(false);
+      pointer('pointermove', 150, 200);
+      expect(dragScroll.currentY).toBe(0);
+      pointer('pointerup', 150, 200);
+
+      pointer('pointerdown', 200, 300, innerContainer);
+      pointer('pointermove', 190, 250);
+      expect(dragScroll.currentY).toBe(50);
+      expect(inner.isDragging).toBe(false);
+      expect(inner.currentX).toBe(50);
+      pointer('pointerup', 190, 250);
+    });
+
+    it('内层在拖拽方向已到边界时应该交由外层实例拖拽', () => {
+      createNested();
+      const onDragStart = jest.fn();
+      const onDragEnd = jest.fn();
+      inner.on('dragstart', onDragStart);
+      inner.on('dragend', onDragEnd);
+      dragScroll.on('dragstart', onDragStart);
+      // 内层在顶部，向下拖拽
+      pointer('pointerdown', 0, 100, innerContainer);
+      pointer('pointermove', 0, 110);
+      expect(inner.isDragging).toBe(false);
+      // 只有处理拖拽的外层实例触发拖拽开始，内层未开始拖拽，不触发拖拽结束
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+      expect(onDragEnd).not.toHaveBeenCalled();
+      pointer('pointerup', 0, 110);
+
+      // 向上拖拽由内层处理
+      pointer('pointerdown', 0, 300, innerContainer);
+      pointer('pointermove', 0, 250);
+      expect(inner.currentY).toBe(50);
+      expect(dragScroll.isDragging).toBe(false);
+      pointer('pointerup', 0, 250);
+    });
+
+    it('overscrollBehavior 为 contain 时内层在边界也不应该交由外层实例', () => {
+      createNested({ overscrollBehavior: 'contain' });
+      pointer('pointerdown', 0, 100, innerContainer);
+      pointer('pointermove', 0, 150);
+      expect(inner.isDragging).toBe(true);
+      expect(dragScroll.isDragging).toBe(false);
+      expect(dragScroll.currentY).toBe(0);
+      pointer('pointerup', 0, 150);
+    });
+
+    it('拖拽过程中内层滚动到边界时应该交由外层实例继续拖拽', () => {
+      createNested();
+      const onDragStart = jest.fn();
+      dragScroll.on('dragstart', onDragStart);
+      pointer('pointerdown', 0, 300, innerContainer);
+      pointer('pointermove', 0, 250);
+      pointer('pointermove', 0, 180);
+      expect(inner.currentY).toBe(100);
+      expect(dragScroll.currentY).toBe(0);
+
+      // 内层已到底部，交由外层从当前指针位置继续拖拽
+      pointer('pointermove', 0, 170);
+      expect(inner.isDragging).toBe(false);
+      expect(dragScroll.isDragging).toBe(true);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+      pointer('pointermove', 0, 140);
+      expect(dragScroll.currentY).toBe(30);
+      expect(inner.currentY).toBe(100);
+      pointer('pointerup', 0, 140);
+      expect(dragScroll.isDragging).toBe(false);
+    });
+
+    it('滚轮应该先滚动内层，内层到边界后交由外层', () => {
+      createNested();
+      const wheel = (deltaY: number) => {
+        const event = new WheelEvent('wheel', { deltaY, bubbles: true, cancelable: true });
+        inner.$content.dispatchEvent(event);
+        return event;
+      };
+
+      expect(wheel(120.5).defaultPrevented).toBe(true);
+      expect(inner.currentY).toBe(100);
+      expect(dragScroll.currentY).toBe(0);
+
+      wheel(50.5);
+      expect(inner.currentY).toBe(100);
+      expect(dragScroll.currentY).toBe(50.5);
+
+      inner.destroy();
+      createNested({ overscrollBehavior: 'contain' });
+      inner.scrollToY(100);
+      expect(wheel(50.5).defaultPrevented).toBe(true);
+      expect(dragScroll.currentY).toBe(0);
+    });
+
+    it('外层可垂直滚动时，水平内层不应该将垂直滚轮映射为水平滚动', () => {
+      createNested({ axis: 'x' });
+      const wheel = (init: WheelEventInit) => {
+        const event = new WheelEvent('wheel', { bubbles: true, cancelable: true, ...init });
+        inner.$content.dispatchEvent(event);
+        return event;
+      };
+
+      wheel({ deltaY: 10.5 });
+      expect(inner.currentX).toBe(0);
+      expect(dragScroll.currentY).toBe(10.5);
+
+      // Shift + 滚轮仍然水平滚动
+      expect(wheel({ deltaY: 10.5, shiftKey: true }).defaultPrevented).toBe(true);
+      expect(inner.currentX).toBe(10.5);
+      expect(dragScroll.currentY).toBe(10.5);
+    });
+
+    it('touchmove 只应该由拖拽的实例阻止', () => {
+      createNested({ axis: 'x' });
+      const touchmove = (target: EventTarget, clientX: number, clientY: number) => {
+        const event = new Event('touchmove', { bubbles: true, cancelable: true });
+        Object.defineProperty(event, 'touches', { value: [{ clientX, clientY }] });
+        target.dispatchEvent(event);
+        return event;
+      };
+
+      pointer('pointerdown', 200, 300, innerContainer);
+      // 未超过拖拽阈值时，按移动方向判断
+      expect(touchmove(inner.$content, 200, 298).defaultPrevented).toBe(true);
+      pointer('pointermove', 200, 280);
+      expect(inner.isDragging).toBe(false);
+      expect(touchmove(inner.$content, 200, 280).defaultPrevented).toBe(true);
+      pointer('pointerup', 200, 280);
+
+      // 外层不可拖拽时，垂直方向交由页面滚动
+      dragScroll.readonly = true;
+      pointer('pointerdown', 200, 300, innerContainer);
+      expect(touchmove(inner.$content, 201, 290).defaultPrevented).toBe(false);
+      pointer('pointercancel', 201, 290);
+
+      pointer('pointerdown', 200, 300, innerContainer);
+      pointer('pointermove', 150, 300);
+      expect(touchmove(inner.$content, 150, 300).defaultPrevented).toBe(true);
+      pointer('pointerup', 150, 300);
+    });
+  });
+
+  describe('吸顶标题', () => {
+    const content = [0, 300, 700]
+      .map(top => `<section><h3 class="title" data-top="${top}">Title ${top}</h3><p>Item</p></section>`)
+      .join('');
+
+    // jsdom 不计算布局，按 data-top 设置标题位置
+    const mockHeaders = () => {
+      dragScroll.$content.querySelectorAll<HTMLElement>('.title').forEach(header => {
+        Object.defineProperty(header, 'offsetTop', { value: Number(header.dataset.top), configurable: true });
+        Object.defineProperty(header, 'offsetHeight', { value: 40, configurable: true });
+      });
+    };
+
+    const createDragScroll = (options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content, sticky: '.title', ...options });
+      mockSize(dragScroll, 1000);
+      mockHeaders();
+      dragScroll.refresh();
+    };
+
+    const getHeaders = () => Array.from(dragScroll.$content.querySelectorAll<HTMLElement>('.title'));
+
+    it('应该将最后一个滚动到顶部的标题固定在容器顶部', () => {
+      createDragScroll();
+      const [first, second] = getHeaders();
+      expect(container.classList.contains('drag-scroll-sticky')).toBe(true);
+      expect(first.classList.contains('drag-scroll-sticky-header')).toBe(true);
+      expect(first.classList.contains('drag-scroll-sticky-header-active')).toBe(true);
+
+      dragScroll.scrollToY(100);
+      expect(first.style.transform).toBe('translate3d(0, 100px, 0)');
+
+      // 下一个标题到达时将当前标题推出
+      dragScroll.scrollToY(280);
+      expect(first.style.transform).toBe('translate3d(0, 260px, 0)');
+
+      dragScroll.scrollToY(350);
+      expect(first.style.transform).toBe('');
+      expect(first.classList.contains('drag-scroll-sticky-header-active')).toBe(false);
+      expect(second.classList.contains('drag-scroll-sticky-header-active')).toBe(true);
+      expect(second.style.transform).toBe('translate3d(0, 50px, 0)');
+    });
+
+    it('最后一个标题应该在内容末尾被推出', () => {
+      createDragScroll();
+      const third = getHeaders()[2];
+      dragScroll.scrollToY(600);
+      expect(third.classList.contains('drag-scroll-sticky-header-active')).toBe(false);
+      Object.defineProperty(container, 'clientHeight', { value: 20, writable: true });
+      dragScroll.scrollToY(900);
+      expect(third.style.transform).toBe('translate3d(0, 200px, 0)');
+      dragScroll.scrollToY(980);
+      expect(third.style.transform).toBe('translate3d(0, 260px, 0)');
+    });
+
+    it('吸顶标题改变时应该触发 onStickyChange 和 stickychange', () => {
+      const onStickyChange = jest.fn();
+      createDragScroll({ onStickyChange });
+      const stickychange = jest.fn();
+      dragScroll.on('stickychange', stickychange);
+      const [first, second] = getHeaders();
+      expect(onStickyChange).toHaveBeenLastCalledWith(0, first);
+      onStickyChange.mockClear();
+
+      dragScroll.scrollToY(100);
+      dragScroll.scrollToY(320);
+      expect(onStickyChange).toHaveBeenCalledTimes(1);
+      expect(onStickyChange).toHaveBeenLastCalledWith(1, second);
+      expect(stickychange).toHaveBeenCalledWith({ index: 1, header: second });
+
+      dragScroll.scrollToY(0);
+      expect(stickychange).toHaveBeenLastCalledWith({ index: 0, header: first });
+    });
+
+    it('内容变化后 refresh 应该重新查找标题', () => {
+      createDragScroll();
+      const [first] = getHeaders();
+      dragScroll.innerHtml('<h3 class="title" data-top="0">New</h3>');
+      expect(first.classList.contains('drag-scroll-sticky-header')).toBe(false);
+      expect(first.classList.contains('drag-scroll-sticky-header-active')).toBe(false);
+
+      const header = document.createElement('h3');
+      header.className = 'title';
+      header.dataset.top = '500';
+      dragScroll.append(header);
+      mockHeaders();
+      dragScroll.refresh();
+      dragScroll.scrollToY(520);
+      expect(header.classList.contains('drag-scroll-sticky-header-active')).toBe(true);
+      expect(header.style.transform).toBe('translate3d(0, 20px, 0)');
+    });
+
+    it('销毁时应该恢复标题', () => {
+      container.innerHTML = content;
+      createDragScroll({ adopt: true });
+      dragScroll.scrollToY(100);
+      dragScroll.destroy();
+      const [first] = Array.from(container.querySelectorAll<HTMLElement>('.title'));
+      expect(first.className).toBe('title');
+      expect(first.style.transform).toBe('');
+    });
+
+    it('axis 为 x 时不应该固定标题', () => {
+      createDragScroll({ axis: 'x' });
+      expect(dragScroll.$content.querySelector('.drag-scroll-sticky-header')).toBeNull();
+    });
+  });
+
+  describe('滚动位置快照', () => {
+    const items = (ids: string[]) => ids.map(id => `<div id="${id}">${id}</div>`).join('');
+
+    // jsdom 不计算布局，每个子元素高度 200px
+    const mockLayout = (instance: DragScroll) => {
+      const height = instance.$content.children.length * 200;
+      mockSize(instance, height);
+      instance.$content.getBoundingClientRect = () => ({ top: -instance.currentY, left: 0, width: 300, height }) as DOMRect;
+      Array.from(instance.$content.children).forEach((child, index) => {
+        child.getBoundingClientRect = () => ({ top: index * 200 - instance.currentY, left: 0, width: 300, height: 200 }) as DOMRect;
+      });
+    };
+
+    const createDragScroll = (ids: string[], options: Partial<DragScrollOptions> = {}) => {
+      dragScroll = new DragScroll(container, { content: items(ids), ...options });
+      mockLayout(dragScroll);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      sessionStorage.clear();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('getSnapshot 应该记录位置和第一个可见的锚点元素', () => {
+      createDragScroll(['a', 'b', 'c', 'd', 'e']);
+      dragScroll.scrollToY(450);
+      expect(dragScroll.getSnapshot()).toEqual({ x: 0, y: 450, anchor: { index: 2, id: 'c', offset: 50 } });
+
+      // 内容为空时不记录锚点
+      dragScroll.innerHtml('');
+      expect(dragScroll.getSnapshot().anchor).toBeUndefined();
+    });
+
+    it('restoreSnapshot 应该按锚点元素恢复，锚点之前的内容变化不影响结果', () => {
+      createDragScroll(['a', 'b', 'c', 'd', 'e']);
+      dragScroll.scrollToY(450);
+      const snapshot = JSON.parse(JSON.stringify(dragScroll.getSnapshot()));
+      dragScroll.destroy();
+
+      // 锚点之前新增了一个元素
+      createDragScroll(['new', 'a', 'b', 'c', 'd', 'e']);
+      const onChange = jest.fn();
+      dragScroll.on('scroll', onChange);
+      dragScroll.restoreSnapshot(snapshot);
+      expect(dragScroll.currentY).toBe(650);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('锚点元素不存在时应该恢复到快照记录的位置', () => {
+      createDragScroll(['a', 'b', 'c', 'd', 'e']);
+      dragScroll.restoreSnapshot({ x: 0, y: 300, anchor: { index: 2, id: 'removed', offset: 50 } });
+      expect(dragScroll.currentY).toBe(300);
+
+      // 没有 id 时按索引查找
+      dragScroll.restoreSnapshot({ x: 0, y: 0, anchor: { index: 2, offset: 20 } });
+      expect(dragScroll.currentY).toBe(420);
+    });
+
+    it('虚拟列表模式下应该按列表项索引记录和恢复', () => {
+      dragScroll = new DragScroll(container, { virtual: { itemCount: 100, itemSize: 50, renderItem: () => {} } });
+      Object.defineProperty(container, 'clientHeight', { value: 400, writable: true });
+      dragScroll.scrollToY(1020);
+      const snapshot = dragScroll.getSnapshot();
+      expect(snapshot.anchor).toEqual({ index: 20, offset: 20 });
+
+      dragScroll.scrollToY(0);
+      dragScroll.restoreSnapshot(snapshot);
+      expect(dragScroll.currentY).toBe(1020);
+    });
+
+    it('persistKey 应该在销毁时保存并在重新创建后恢复', () => {
+      createDragScroll(['a', 'b', 'c', 'd', 'e'], { persistKey: 'list' });
+      dragScroll.scrollToY(450);
+      dragScroll.destroy();
+      expect(JSON.parse(sessionStorage.getItem('drag-scroll:list')!)).toEqual(expect.objectContaining({ y: 450 }));
+
+      createDragScroll(['new', 'a', 'b', 'c', 'd', 'e'], { persistKey: 'list' });
+      expect(dragScroll.currentY).toBe(0);
+      jest.runOnlyPendingTimers();
+      expect(dragScroll.currentY).toBe(650);
+    });
+
+    it('恢复前销毁不应该覆盖已保存的快照', () => {
+      sessionStorage.setItem('drag-scroll:list', JSON.stringify({ x: 0, y: 300 }));
+      createDragScroll(['a', 'b', 'c'], { persistKey: 'list' });
+      dragScroll.destroy();
+      expect(JSON.parse(sessionStorage.getItem('drag-scroll:list')!)).toEqual({ x: 0, y: 300 });
+    });
+
+    it('页面隐藏时应该保存快照', () => {
+      createDragScroll(['a', 'b', 'c'], { persistKey: 'page' });
+      dragScroll.scrollToY(100);
+      window.dispatchEvent(new Event('pagehide'));
+      expect(JSON.parse(sessionStorage.getItem('drag-scroll:page')!)).toEqual(expect.objectContaining({ y: 100 }));
+    });
+
+    it('sessionStorage 不可用时应该保存在内存中', () => {
+      const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      const getItem = jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+        throw new Error('SecurityError');
+      });
+
+      createDragScroll(['a', 'b', 'c', 'd', 'e'], { persistKey: 'memory' });
+      dragScroll.scrollToY(250);
+      expect(() => dragScroll.destroy()).not.toThrow();
+
+      createDragScroll(['a', 'b', 'c', 'd', 'e'], { persistKey: 'memory' });
+      jest.runOnlyPendingTimers();
+      expect(dragScroll.currentY).toBe(250);
+
+      setItem.mockRestore();
+      getItem.mockRestore();
+    });
+  });
 });
@@ -1,3 +1,203 @@
+/**
+ * 拖拽滚动方向
+ * - `y` 垂直滚动（默认）
+ * - `x` 水平滚动
+ * - `both` 双轴自由滚动
+ */
+export type DragScrollAxis = 'y' | 'x' | 'both';
+
+/**
+ * 边界越界行为
+ * - `clamp` 限制在边界内（默认）
+ * - `bounce` 越界时橡皮筋阻尼拖拽，释放后弹性回弹
+ */
+export type DragScrollOverscroll = 'clamp' | 'bounce';
+
+/**
+ * 滚动链（类似 CSS `overscroll-behavior`）
+ * - `auto` 滚动到边界后继续拖拽、滚轮滚动时交由外层实例或页面滚动（默认）
+ * - `contain` 滚动到边界后不交由外层实例或页面滚动
+ */
+export type DragScrollOverscrollBehavior = 'auto' | 'contain';
+
+/**
+ * 滚动条显示方式
+ * - `auto` 滚动时显示，停止后自动隐藏（默认）
+ * - `always` 始终显示
+ * - `hover` 滚动时或鼠标悬停在容器上时显示
+ */
+export type DragScrollScrollbarVisibility = 'auto' | 'always' | 'hover';
+
+/**
+ * 滚动内容
+ * - HTML 字符串
+ * - DOM 节点（包括 DocumentFragment）或元素数组，节点会被移动到内容容器中，保留事件监听和框架持有的引用
+ * - 返回以上内容的函数
+ */
+export type DragScrollContent = string | Node | HTMLElement[] | (() => string | Node | HTMLElement[]);
+
+/**
+ * 吸附对齐方式
+ */
+export type DragScrollSnapAlign = 'start' | 'center' | 'end';
+
+/**
+ * 分页参数
+ */
+export interface DragScrollPagerOptions {
+  /** 切换页面的拖拽距离阈值，为容器尺寸的比例，默认 0.2 */
+  threshold?: number;
+  /** 切换页面的释放速度阈值（px/帧），默认 3 */
+  velocityThreshold?: number;
+  /** 是否循环（首尾页通过克隆页无缝衔接，克隆页不保留事件监听），默认 false */
+  loop?: boolean;
+  /** 自动播放间隔（ms），拖拽或鼠标悬停时暂停，为 0 时不自动播放，默认 0 */
+  autoplay?: number;
+  /** 是否显示分页指示点，默认 true */
+  dots?: boolean;
+  /**
+   * 页面改变回调
+   * @param index number - 当前页索引
+   */
+  onPageChange?: (index: number) => void;
+}
+
+/**
+ * 下拉刷新状态
+ * - `idle` 空闲
+ * - `pulling` 下拉中，未达到触发距离
+ * - `ready` 已达到触发距离，释放后刷新
+ * - `refreshing` 刷新中
+ * - `done` 刷新完成，指示器收起中
+ */
+export type DragScrollRefreshState = 'idle' | 'pulling' | 'ready' | 'refreshing' | 'done';
+
+/**
+ * 下拉刷新参数
+ */
+export interface DragScrollPullToRefreshOptions {
+  /** 触发刷新的下拉距离（px），默认 60 */
+  threshold?: number;
+  /** 最大下拉距离（px），不小于 `threshold`，默认 120 */
+  max?: number;
+  /**
+   * 刷新回调，返回 Promise 时保持刷新状态直到 Promise 完成（无论成功或失败）
+   */
+  onRefresh: () => Promise<unknown> | unknown;
+  /**
+   * 下拉刷新状态改变回调
+   * @param state DragScrollRefreshState - 当前状态
+   */
+  onStateChange?: (state: DragScrollRefreshState) => void;
+}
+
+/**
+ * 虚拟列表参数
+ */
+export interface DragScrollVirtualOptions {
+  /** 列表项数量 */
+  itemCount: number;
+  /** 列表项尺寸（`axis` 为 `x` 时为宽度，否则为高度），固定值或按索引返回尺寸的函数，开启 `measure` 时作为预估尺寸 */
+  itemSize: number | ((index: number) => number);
+  /**
+   * 渲染列表项，列表项元素会被回收复用
+   * @param index number - 列表项索引
+   * @param $item HTMLElement - 列表项元素（classname drag-scroll-item）
+   * @returns 列表项内容（替换 `$item` 的子节点），直接修改 `$item` 时可不返回
+   */
+  renderItem: (index: number, $item: HTMLElement) => DragScrollContent | void;
+  /** 可见区域前后额外渲染的列表项数量，默认 3 */
+  overscan?: number;
+  /** 是否按渲染后的实际尺寸修正列表项尺寸，默认 false */
+  measure?: boolean;
+}
+
+/**
+ * 物理参数
+ */
+export interface DragScrollPhysics {
+  /** 摩擦力（惯性滚动时每帧保留的速度比例），取值 (0, 1)，默认 0.92 */
+  friction: number;
+  /** 弹性系数（回弹时每帧收敛的越界比例），取值 (0, 1)，默认 0.25 */
+  spring: number;
+  /** 边界反弹阻尼（越界拖拽阻力与越界减速），取值 [0, 1)，默认 0.6 */
+  bounceDamping: number;
+  /** 最大速度限制（px/帧），需大于 0，默认 30 */
+  maxVelocity: number;
+}
+
+/**
+ * 物理参数预设
+ * - `default` 默认手感
+ * - `ios-like` 滑行更远、回弹更柔和，接近 iOS 原生滚动
+ * - `stiff` 滑行短、回弹快
+ * - `loose` 滑行长、回弹慢
+ */
+export type DragScrollPhysicsPreset = 'default' | 'ios-like' | 'stiff' | 'loose';
+
+/**
+ * 缓动函数
+ * @param t number - 时间进度 [0, 1]
+ * @returns number - 位移进度，0 为起点，1 为终点
+ */
+export type DragScrollEasingFunction = (t: number) => number;
+
+/**
+ * 内置缓动函数名称
+ */
+export type DragScrollEasing =
+  'linear' | 'easeInQuad' | 'easeOutQuad' | 'easeInOutQuad' | 'easeInCubic' | 'easeOutCubic' | 'easeInOutCubic' | 'easeOutQuart';
+
+/**
+ * 滚动到指定位置参数
+ */
+export interface DragScrollToOptions {
+  /** 目标 X 轴平移值，默认保持当前位置，超出范围时限制在边界内 */
+  x?: number;
+  /** 目标 Y 轴平移值，默认保持当前位置，超出范围时限制在边界内 */
+  y?: number;
+  /** 动画时长（ms），为 0 时立即滚动，默认 300 */
+  duration?: number;
+  /** 内置缓动函数名称或自定义缓动函数，默认 `easeOutCubic` */
+  easing?: DragScrollEasing | DragScrollEasingFunction;
+}
+
+/**
+ * 元素对齐方式
+ * - `start` 元素与容器起始边对齐
+ * - `center` 元素居中
+ * - `end` 元素与容器末尾边对齐
+ * - `nearest` 元素已完全可见时不滚动，否则按最近的一边对齐
+ */
+export type DragScrollAlign = 'start' | 'center' | 'end' | 'nearest';
+
+/**
+ * 滚动到指定元素参数
+ */
+export interface DragScrollToElementOptions {
+  /** 对齐方式，默认 `start` */
+  align?: DragScrollAlign;
+  /** 目标滚动位置的偏移量（px），如 `-60` 可为顶部悬浮栏预留空间，默认 0 */
+  offset?: number;
+  /** 是否使用动画，也可传入动画时长和缓动函数，默认 true */
+  animate?: boolean | Pick<DragScrollToOptions, 'duration' | 'easing'>;
+}
+
+/**
+ * 滚动方向，`down`/`right` 表示向内容末尾滚动，尚未滚动时为 `none`
+ */
+export type DragScrollDirection = 'up' | 'down' | 'left' | 'right' | 'none';
+
+/**
+ * 滚动阶段
+ * - `idle` 静止
+ * - `drag` 拖拽内容或滚动条
+ * - `momentum` 惯性滚动（含越界回弹）
+ * - `programmatic` 调用 API、键盘或点击滚动条滑轨触发的滚动（含分页和吸附动画）
+ * - `wheel` 鼠标滚轮或触控板滚动
+ */
+export type DragScrollPhase = 'idle' | 'drag' | 'momentum' | 'programmatic' | 'wheel';
+
 /**
  * 拖拽滚动状态
  */
@@ -6,10 +206,94 @@ export interface DragScrollState {
   x: number;
   /** 当前平移 Y 位置 */
   y: number;
-  /** 当前滚动速度 */
+  /** X 轴最大滚动距离 */
+  maxX: number;
+  /** Y 轴最大滚动距离 */
+  maxY: number;
+  /** 主轴（`axis` 为 `x` 时为 X 轴，否则为 Y 轴）滚动进度，0 ~ 1，越界时限制在该范围内，不可滚动时为 0 */
+  progress: number;
+  /** X 轴滚动进度，0 ~ 1 */
+  progressX: number;
+  /** Y 轴滚动进度，0 ~ 1 */
+  progressY: number;
+  /** 最近一次位置变化的方向 */
+  direction: DragScrollDirection;
+  /** 是否正在拖拽内容 */
+  isDragging: boolean;
+  /** 是否正在进行惯性滚动、滚动动画或下拉刷新动画 */
+  isAnimating: boolean;
+  /** 当前滚动阶段 */
+  phase: DragScrollPhase;
+  /** 当前滚动速度（`axis` 为 `x` 时为 X 轴速度，`both` 时为合速度，否则为 Y 轴速度） */
   velocity: number;
+  /** 当前 X 轴滚动速度 */
+  velocityX: number;
+  /** 当前 Y 轴滚动速度 */
+  velocityY: number;
+  /** X 轴越界距离（左侧越界为负值，右侧越界为正值，未越界为 0） */
+  overscrollX: number;
+  /** Y 轴越界距离（顶部越界为负值，底部越界为正值，未越界为 0） */
+  overscrollY: number;
+}
+
+/**
+ * 滚动位置快照锚点，恢复时按锚点元素的位置计算滚动位置，锚点之前的内容尺寸变化不影响恢复结果
+ */
+export interface DragScrollSnapshotAnchor {
+  /** 锚点元素在 `$content` 子元素中的索引（虚拟列表模式下为列表项索引，分页模式下为页索引） */
+  index: number;
+  /** 锚点元素的 id，有 id 时按 id 查找锚点元素 */
+  id?: string;
+  /** 滚动位置相对于锚点元素起始位置的偏移（px） */
+  offset: number;
+}
+
+/**
+ * 滚动位置快照
+ */
+export interface DragScrollSnapshot {
+  /** 平移 X 位置 */
+  x: number;
+  /** 平移 Y 位置 */
+  y: number;
+  /** 主轴方向第一个可见的内容子元素，内容为空时不记录 */
+  anchor?: DragScrollSnapshotAnchor;
+}
+
+/**
+ * 事件及其参数
+ * 同时在 `$container` 上派发同名的 `CustomEvent`（事件名带 `drag-scroll:` 前缀，参数为 `detail`，不冒泡）
+ */
+export interface DragScrollEventMap {
+  /** 滚动位置或速度改变 */
+  scroll: DragScrollState;
+  /** 拖拽开始（指针移动超过 `dragThreshold` 且由当前实例拖拽时） */
+  dragstart: PointerEvent;
+  /** 拖拽中 */
+  drag: DragScrollState;
+  /** 拖拽结束（仅已开始的拖拽） */
+  dragend: PointerEvent;
+  /** 惯性滚动（含越界回弹）开始 */
+  momentumstart: DragScrollState;
+  /** 惯性滚动（含越界回弹）结束或被中断 */
+  momentumend: DragScrollState;
+  /** 滚动到距离开头 `reachThreshold` 以内 */
+  reachstart: DragScrollState;
+  /** 滚动到距离末尾 `reachThreshold` 以内 */
+  reachend: DragScrollState;
+  /** 容器尺寸改变 */
+  resize: { width: number; height: number };
+  /** 吸顶标题改变（`index` 为 -1 时没有吸顶标题） */
+  stickychange: { index: number; header: HTMLElement | null };
+  /** 实例销毁 */
+  destroy: undefined;
 }
 
+/**
+ * 事件监听函数
+ */
+export type DragScrollEventListener<K extends keyof DragScrollEventMap> = (detail: DragScrollEventMap[K]) => void;
+
 /**
  * 拖拽滚动参数
  */
@@ -19,42 +303,234 @@ export interface DragScrollOptions {
   /** 容器高度, 默认 400px */
   height?: number | string;
   /** 滚动内容, 默认空字符串 */
-  content?: string | (() => string);
+  content?: DragScrollContent;
+  /**
+   * HTML 字符串内容（`content`、`innerHtml`、`append`、`prepend`）的净化函数，默认使用内置的 `DragScroll.sanitize`
+   * 传入 `html => html` 可关闭净化（仅在内容完全可信时使用）
+   * @param html string - 待插入的 HTML 字符串
+   * @returns 净化后的 HTML 字符串或 DOM 节点
+   */
+  sanitize?: (html: string) => string | Node;
+  /** 是否将容器现有的子节点作为滚动内容（忽略 `content`，销毁时移回容器），默认 false */
+  adopt?: boolean;
   /** 是否只读，默认 false */
   readonly?: boolean;
   /** 隐藏滚动条，默认 false */
   hideScrollbar?: boolean;
+  /** 滚动条显示方式，默认 `auto` */
+  scrollbarVisibility?: DragScrollScrollbarVisibility;
+  /** 滚动方向，默认 `y` */
+  axis?: DragScrollAxis;
+  /** 边界越界行为，默认 `clamp` */
+  overscroll?: DragScrollOverscroll;
+  /**
+   * 滚动链，嵌套实例时由内向外按拖拽方向决定处理拖拽的实例，默认 `auto`
+   * `auto` 时可滚动方向已到边界则交由外层实例拖拽，拖拽过程中滚动到边界（`overscroll` 为 `clamp` 时）也会交由外层实例继续拖拽
+   */
+  overscrollBehavior?: DragScrollOverscrollBehavior;
+  /** 是否支持鼠标滚轮和触控板滚动，默认 true */
+  wheel?: boolean;
+  /** 滚动区域的无障碍标签（aria-label），默认空字符串（不设置） */
+  ariaLabel?: string;
+  /** 是否支持键盘导航（容器可聚焦，方向键、翻页键、Home/End、空格滚动，Tab 聚焦的元素自动滚动到可见区域），默认 false */
+  keyboard?: boolean;
+  /** 物理参数，预设名称或自定义参数（未指定的参数使用默认值），默认 `default` */
+  physics?: DragScrollPhysicsPreset | Partial<DragScrollPhysics>;
+  /** 拖拽阈值（px），指针沿滚动方向移动超过该距离后内容才开始跟随，并阻止释放后触发的 click，默认 5 */
+  dragThreshold?: number;
+  /**
+   * 不开始拖拽的元素选择器，按下的元素或其在容器内的祖先元素匹配时不开始拖拽，传入空字符串则不忽略任何元素
+   * 默认为表单控件和可编辑元素 `input, textarea, select, option, [contenteditable]:not([contenteditable="false"])`
+   */
+  ignore?: string;
+  /**
+   * 下拉刷新（`axis` 为 `x` 时无效），在顶部继续向下拖拽时显示指示器 `$refresh`，默认不开启
+   * 指示器类名为 `drag-scroll-refresh` 和 `drag-scroll-refresh-{state}`
+   */
+  pullToRefresh?: DragScrollPullToRefreshOptions;
+  /**
+   * 分页模式，`$content` 的每个子元素为一页（沿主轴），拖拽超过距离或速度阈值时切换页面，开启时忽略 `snap`，默认不开启
+   * 内容变化后需调用 `refresh` 更新页面
+   */
+  pager?: boolean | DragScrollPagerOptions;
+  /**
+   * 吸附（沿主轴，`axis` 为 `x` 时为 X 轴，否则为 Y 轴），拖拽释放和滚轮滚动停止后按释放速度吸附到最近的吸附点，默认不开启
+   * - number 按固定间隔（px）吸附
+   * - `page` 按容器尺寸分页吸附
+   * - 其他字符串为 `$content` 内吸附目标元素的选择器
+   */
+  snap?: number | 'page' | (string & {});
+  /** 吸附对齐方式，默认 `start` */
+  snapAlign?: DragScrollSnapAlign;
+  /**
+   * 吸附完成且吸附目标改变时回调
+   * @param index number - 吸附目标索引
+   */
+  onSnap?: (index: number) => void;
+  /**
+   * 吸顶标题选择器（`axis` 为 `x` 和虚拟列表模式下无效），匹配 `$content` 内的元素，所在分组可见时固定在容器顶部，下一个标题到达时将其推出，默认不开启
+   * 标题元素类名为 `drag-scroll-sticky-header`，当前吸顶的标题类名为 `drag-scroll-sticky-header-active`
+   * 内容变化后需调用 `refresh` 重新测量标题位置（开启 `observe` 时自动调用）
+   */
+  sticky?: string;
+  /**
+   * 吸顶标题改变时回调
+   * @param index number - 吸顶标题索引，没有吸顶标题时为 -1
+   * @param header HTMLElement | null - 吸顶标题元素
+   */
+  onStickyChange?: (index: number, header: HTMLElement | null) => void;
+  /**
+   * 虚拟列表，只渲染可见区域和 `overscan` 范围内的列表项（开启时忽略 `content`、`adopt`），默认不开启
+   */
+  virtual?: DragScrollVirtualOptions;
+  /**
+   * 保存滚动位置快照的 key，销毁实例和页面隐藏（`pagehide`）时保存到 `sessionStorage`，创建实例后的下一帧（内容渲染完成后）自动恢复，默认不开启
+   * `sessionStorage` 不可用（隐私模式、沙箱 iframe、存储已满等）时保存在内存中，仅在当前页面有效
+   * 同一页面中的多个实例需使用不同的 key
+   */
+  persistKey?: string;
+  /** 触发 `onReachStart`、`onReachEnd` 的距离阈值（px），默认 50 */
+  reachThreshold?: number;
+  /** 是否还有更多内容，为 false 时不再触发 `onReachEnd`，默认 true */
+  hasMore?: boolean;
+  /**
+   * 底部（`axis` 为 `x` 时为右侧）加载区域内容，插入在内容末尾，类名为 `drag-scroll-footer`
+   * 启用 `virtual` 时定位在所有列表项之后，尺寸计入滚动范围
+   * 加载中追加 `drag-scroll-footer-loading`，没有更多内容时追加 `drag-scroll-footer-no-more`
+   */
+  footer?: DragScrollContent;
+  /**
+   * 滚动到距离末尾 `reachThreshold` 以内时回调（`hasMore` 为 false 时不触发）
+   * 返回 Promise（或 thenable）时进入加载状态，完成前不会再次触发 `onReachStart`、`onReachEnd`
+   */
+  onReachEnd?: () => PromiseLike<unknown> | unknown;
+  /**
+   * 滚动到距离开头 `reachThreshold` 以内时回调
+   * 返回 Promise（或 thenable）时进入加载状态，完成前不会再次触发 `onReachStart`、`onReachEnd`
+   */
+  onReachStart?: () => PromiseLike<unknown> | unknown;
+  /** 是否监听容器和内容的尺寸及 DOM 变化（ResizeObserver、MutationObserver），变化时自动调用 `refresh`，默认 false */
+  observe?: boolean;
   /**
    * 滚动状态改变回调
    * @param state DragScrollState - 当前滚动状态
    */
   onChange?: (state: DragScrollState) => void;
   /**
-   * 拖拽开始回调
+   * 拖拽开始回调，指针移动超过 `dragThreshold` 且由当前实例拖拽时触发（点击不触发）
    * @param e PointerEvent - 触发拖拽开始的事件对象
    */
   onDragStart?: (e: PointerEvent) => void;
   /**
-   * 拖拽结束回调
-   * @param e PointerEvent - 触发拖拽开始的事件对象
+   * 拖拽结束回调，仅在触发过 `onDragStart` 的拖拽结束时触发
+   * @param e PointerEvent - 触发拖拽结束的事件对象
    */
   onDragEnd?: (e: PointerEvent) => void;
   /**
    * 拖拽过程中回调
-   * @param x number - 当前鼠标或触摸拖拽过程的 X 坐标
-   * @param y number - 当前鼠标或触摸拖拽过程的 Y 坐标
+   * @param x number - 当前平移 X 位置（`axis` 为 `y` 时始终为 0）
+   * @param y number - 当前平移 Y 位置（`axis` 为 `x` 时始终为 0）
+   * @param state DragScrollState - 当前滚动状态
    */
-  onDragging?: (x: number, y: number) => void;
+  onDragging?: (x: number, y: number, state: DragScrollState) => void;
 }
+/**
+ * 默认净化时移除的元素（小写），`<style>` 会作用于整个页面，SVG 动画元素可将属性动画为 `javascript:` URL
+ */
+const _$DRAG_SCROLL_UNSAFE_TAGS$_ = [
+  'script',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'base',
+  'link',
+  'meta',
+  'style',
+  'animate',
+  'set',
+  'animatemotion',
+];
+
+/**
+ * 可执行脚本的 URL 协议（忽略协议中的空白和控制字符，浏览器解析 URL 时同样会忽略）
+ */
+const _$DRAG_SCROLL_UNSAFE_URL$_ = /^(javascript|vbscript):/i;
+
+/**
+ * 净化节点树：移除可执行脚本的元素、事件处理属性（on*）、`srcdoc` 属性和 `javascript:` 等 URL
+ * @param root 根节点
+ */
+const _$DRAG_SCROLL_SANITIZE_NODE$_ = (root: DocumentFragment | Element) => {
+  // SVG 元素的标签名区分大小写（如 animateMotion），统一按小写比较
+  root.querySelectorAll('*').forEach($el => {
+    if (_$DRAG_SCROLL_UNSAFE_TAGS$_.includes($el.localName.toLowerCase())) $el.remove();
+  });
+  root.querySelectorAll('*').forEach($el => {
+    Array.from($el.attributes).forEach(({ name, value }) => {
+      const lowerName = name.toLowerCase();
+      if (lowerName.startsWith('on') || lowerName === 'srcdoc' || _$DRAG_SCROLL_UNSAFE_URL$_.test(value.replace(/[\u0000-\u0020]/g, ''))) {
+        $el.removeAttribute(name);
+      }
+    });
+    // <template> 的内容不在节点树中，需要单独处理
+    if ($el instanceof HTMLTemplateElement) _$DRAG_SCROLL_SANITIZE_NODE$_($el.content);
+  });
+};
+
+/**
+ * 内置的 HTML 净化函数
+ * @param html HTML 字符串
+ * @returns 净化后的 DocumentFragment
+ */
+const _$DRAG_SCROLL_SANITIZE$_ = (html: string): Node => {
+  const $template = document.createElement('template');
+  $template.innerHTML = html;
+  _$DRAG_SCROLL_SANITIZE_NODE$_($template.content);
+  return $template.content;
+};
+
+/**
+ * 默认不开始拖拽的元素（表单控件和可编辑元素）
+ */
+const _$DRAG_SCROLL_IGNORE$_ = 'input, textarea, select, option, [contenteditable]:not([contenteditable="false"])';
+
 /**
  * 默认参数
  */
 const _$DRAG_SCROLL_DEFAULT_OPTIONS$_: DragScrollOptions = {
   content: '',
+  adopt: false,
   width: '100%',
   height: '400px',
   readonly: false,
   hideScrollbar: false,
+  scrollbarVisibility: 'auto',
+  axis: 'y',
+  overscroll: 'clamp',
+  overscrollBehavior: 'auto',
+  wheel: true,
+  keyboard: false,
+  ariaLabel: '',
+  physics: 'default',
+  dragThreshold: 5,
+  ignore: _$DRAG_SCROLL_IGNORE$_,
+  observe: false,
+  snapAlign: 'start',
+  reachThreshold: 50,
+  hasMore: true,
+  sanitize: _$DRAG_SCROLL_SANITIZE$_,
+};
+
+/**
+ * 物理参数预设
+ */
+const _$DRAG_SCROLL_PHYSICS_PRESETS$_: Record<DragScrollPhysicsPreset, DragScrollPhysics> = {
+  default: { friction: 0.92, spring: 0.25, bounceDamping: 0.6, maxVelocity: 30 },
+  'ios-like': { friction: 0.95, spring: 0.18, bounceDamping: 0.55, maxVelocity: 60 },
+  stiff: { friction: 0.85, spring: 0.4, bounceDamping: 0.4, maxVelocity: 20 },
+  loose: { friction: 0.97, spring: 0.12, bounceDamping: 0.75, maxVelocity: 80 },
 };
 
 /**
@@ -62,6 +538,189 @@ const _$DRAG_SCROLL_DEFAULT_OPTIONS$_: DragScrollOptions = {
  */
 const _$DRAG_SCROLL_PREFIX_CLASSNAME$_ = 'drag-scroll';
 
+/**
+ * 内置缓动函数
+ */
+const _$DRAG_SCROLL_EASINGS$_: Record<DragScrollEasing, DragScrollEasingFunction> = {
+  linear: t => t,
+  easeInQuad: t => t * t,
+  easeOutQuad: t => t * (2 - t),
+  easeInOutQuad: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: t => t * t * t,
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutQuart: t => 1 - Math.pow(1 - t, 4),
+};
+
+/**
+ * 实例自增 ID，用于生成内容容器 id
+ */
+let _$DRAG_SCROLL_ID$_ = 0;
+
+/**
+ * 按行滚动（滚轮 DOM_DELTA_LINE、方向键）时每行的像素高度
+ */
+const _$DRAG_SCROLL_LINE_HEIGHT$_ = 40;
+
+/**
+ * 翻页（翻页键、空格、点击滚动条滑轨）时滚动距离占容器尺寸的比例
+ */
+const _$DRAG_SCROLL_PAGE_RATIO$_ = 0.9;
+
+/**
+ * 空格键交由元素自身处理的可交互元素（按钮、链接等）
+ */
+const _$DRAG_SCROLL_INTERACTIVE$_ =
+  'a[href], button, summary, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [role="tab"], [role="menuitem"], [role="option"]';
+
+/**
+ * 分段滚动（鼠标滚轮、键盘）的平滑动画时长（ms）
+ */
+const _$DRAG_SCROLL_STEP_DURATION$_ = 200;
+
+/**
+ * 虚拟列表默认 overscan
+ */
+const _$DRAG_SCROLL_VIRTUAL_OVERSCAN$_ = 3;
+
+/**
+ * 分页默认参数
+ */
+const _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_: Required<Omit<DragScrollPagerOptions, 'onPageChange'>> = {
+  threshold: 0.2,
+  velocityThreshold: 3,
+  loop: false,
+  autoplay: 0,
+  dots: true,
+};
+
+/**
+ * 滚轮滚动停止后触发吸附的等待时间（ms）
+ */
+const _$DRAG_SCROLL_SNAP_WHEEL_DELAY$_ = 150;
+
+/**
+ * 下拉刷新默认触发距离（px）
+ */
+const _$DRAG_SCROLL_PULL_THRESHOLD$_ = 60;
+
+/**
+ * 下拉刷新默认最大下拉距离（px）
+ */
+const _$DRAG_SCROLL_PULL_MAX$_ = 120;
+
+/**
+ * 下拉阻力，下拉距离为拖拽距离的比例
+ */
+const _$DRAG_SCROLL_PULL_RESISTANCE$_ = 0.5;
+
+/**
+ * 速度单位对应的帧时长（ms），速度以 60Hz 下的 px/帧 计
+ */
+const _$DRAG_SCROLL_FRAME_DURATION$_ = 1000 / 60;
+
+/**
+ * 计算释放速度时采样的时间窗口（ms）
+ */
+const _$DRAG_SCROLL_VELOCITY_SAMPLE_WINDOW$_ = 100;
+
+/**
+ * 惯性滚动停止的最小速度（px/帧）
+ */
+const _$DRAG_SCROLL_MIN_VELOCITY$_ = 0.1;
+
+/**
+ * 滚动动画
+ */
+interface DragScrollTween {
+  /** 起始 X 位置 */
+  fromX: number;
+  /** 起始 Y 位置 */
+  fromY: number;
+  /** 目标 X 位置 */
+  toX: number;
+  /** 目标 Y 位置 */
+  toY: number;
+  /** 开始时间 */
+  startTime: number;
+  /** 动画时长（ms） */
+  duration: number;
+  /** 缓动函数 */
+  easing: DragScrollEasingFunction;
+  /** 动画完成 */
+  resolve: () => void;
+  /** 动画取消 */
+  reject: (reason: Error) => void;
+}
+
+/**
+ * 滚动条指示器拖拽状态
+ */
+interface DragScrollScrollbarDrag {
+  /** 滚动条方向 */
+  axis: 'x' | 'y';
+  /** 指针 ID */
+  pointerId: number;
+  /** 按下时的指针坐标 */
+  start: number;
+  /** 按下时的平移位置 */
+  startPosition: number;
+}
+
+/**
+ * 吸顶标题
+ */
+interface DragScrollStickyHeader {
+  /** 标题元素 */
+  $header: HTMLElement;
+  /** 标题在内容中的起始位置 */
+  top: number;
+  /** 标题高度 */
+  height: number;
+}
+
+/**
+ * 拖拽手势，同一次按下经过的嵌套实例共享
+ */
+interface DragScrollGesture {
+  /** 参与手势的实例（由内向外） */
+  instances: DragScroll[];
+  /** 处理拖拽的实例，超过拖拽阈值前为 null */
+  owner: DragScroll | null;
+}
+
+/**
+ * 按下事件对应的拖拽手势
+ */
+const _$DRAG_SCROLL_GESTURES$_ = new WeakMap<Event, DragScrollGesture>();
+
+/**
+ * 容器元素对应的实例
+ */
+const _$DRAG_SCROLL_INSTANCES$_ = new WeakMap<HTMLElement, DragScroll>();
+
+/**
+ * 保存滚动位置快照的存储 key 前缀
+ */
+const _$DRAG_SCROLL_PERSIST_PREFIX$_ = 'drag-scroll:';
+
+/**
+ * `sessionStorage` 不可用时在内存中保存的滚动位置快照
+ */
+const _$DRAG_SCROLL_SNAPSHOTS$_ = new Map<string, DragScrollSnapshot>();
+
+/**
+ * 拖拽位置采样点
+ */
+interface DragScrollSample {
+  /** X 轴平移位置 */
+  x: number;
+  /** Y 轴平移位置 */
+  y: number;
+  /** 采样时间 */
+  time: number;
+}
+
 /**
  * 拖拽滚动(使用 PointerEvent 统一处理鼠标和触摸事件)
  * @class DragScroll
@@ -76,34 +735,166 @@ const _$DRAG_SCROLL_PREFIX_CLASSNAME$_ = 'drag-scroll';
  * ```
  */
 class DragScroll {
+  /**
+   * 内置缓动函数，可用于组合自定义缓动函数
+   * @example
+   * ```ts
+   * dragScroll.scrollTo({ y: 0, easing: t => DragScroll.easings.easeOutCubic(t) });
+   * ```
+   */
+  static readonly easings: Readonly<Record<DragScrollEasing, DragScrollEasingFunction>> = _$DRAG_SCROLL_EASINGS$_;
+
+  /**
+   * 内置的 HTML 净化函数（`sanitize` 的默认值）：移除 `<script>`、`<iframe>`、`<style>` 等元素，`on*` 事件处理属性和 `javascript:` URL
+   * @example
+   * ```ts
+   * new DragScroll(container, {
+   *   content: userHtml,
+   *   // 在内置净化的基础上移除图片
+   *   sanitize: html => DragScroll.sanitize(html.replace(/<img\b[^>]*>/gi, '')),
+   * });
+   * ```
+   */
+  static readonly sanitize: (html: string) => Node = _$DRAG_SCROLL_SANITIZE$_;
+
   /** 容器元素 classname drag-scroll-container */
   $container: HTMLElement;
   /** 内容容器元素 classname drag-scroll-content */
   $content: HTMLElement;
+  /** 下拉刷新指示器元素 classname drag-scroll-refresh，未开启下拉刷新时为 null */
+  $refresh: HTMLElement | null = null;
+  /** 加载区域元素 classname drag-scroll-footer，未设置 `footer` 时为 null */
+  $footer: HTMLElement | null = null;
   /** 配置项 */
   options: Required<DragScrollOptions>;
   /** 是否正在拖拽 */
   isDragging: boolean;
+  /** 当前平移 X 位置 */
+  currentX: number;
   /** 当前平移 Y 位置 */
   currentY: number;
-  /** 滚动速度 */
+  /** X 轴滚动速度 */
+  velocityX: number;
+  /** Y 轴滚动速度 */
   velocity: number;
 
   // private
+  /** 起始 X 位置 */
+  private _startX: number;
   /** 起始 Y 位置 */
   private _startY: number;
   private _indicatorTimeout: number | null = null;
-  /** 滚动条元素 */
+  /** 垂直滚动条元素 */
   private _$scrollbar: HTMLElement | null = null;
-  /** 滚动条指示器元素 */
+  /** 垂直滚动条指示器元素 */
   private _$scrollbarThumb: HTMLElement | null = null;
+  /** 水平滚动条元素 */
+  private _$scrollbarX: HTMLElement | null = null;
+  /** 水平滚动条指示器元素 */
+  private _$scrollbarThumbX: HTMLElement | null = null;
+  /** 滚动条指示器拖拽状态 */
+  private _scrollbarDrag: DragScrollScrollbarDrag | null = null;
+  /** 是否正在滚动（拖拽、惯性滚动、滚动动画） */
+  private _scrollbarActive = false;
+  /** 鼠标是否悬停在滚动条上 */
+  private _scrollbarHovered = false;
+  /** 鼠标是否悬停在容器上 */
+  private _containerHovered = false;
   /** 是否只读 */
   private _readonly = false;
+  /** 拖拽位置采样点，用于计算释放速度 */
+  private _samples: DragScrollSample[] = [];
+  /** 正在进行的滚动动画 */
+  private _tween: DragScrollTween | null = null;
+  /** 由实例为容器添加的属性，销毁时移除 */
+  private _addedAttributes: string[] = [];
+  /** prefers-reduced-motion 媒体查询 */
+  private _reducedMotionQuery: MediaQueryList | null = null;
+  /** 是否偏好减少动画，为 true 时关闭惯性滚动和滚动动画 */
+  private _reducedMotion = false;
+  /** 容器和内容尺寸监听 */
+  private _resizeObserver: ResizeObserver | null = null;
+  /** 内容 DOM 变化监听 */
+  private _mutationObserver: MutationObserver | null = null;
+  /** 待执行的刷新帧 ID，同一帧内的多次变化合并为一次刷新 */
+  private _refreshId: number | null = null;
+  /** 下拉刷新状态 */
+  private _refreshState: DragScrollRefreshState = 'idle';
+  /** 下拉距离 */
+  private _pullDistance = 0;
+  /** 下拉指示器展开/收起动画 ID */
+  private _pullAnimationId: number | null = null;
+  /** 是否正在加载（`onReachStart`、`onReachEnd` 返回的 Promise 未完成） */
+  private _loading = false;
+  /** 是否已触发 `onReachStart`，离开阈值范围后重置 */
+  private _reachedStart = true;
+  /** 是否已触发 `onReachEnd`，离开阈值范围后重置 */
+  private _reachedEnd = false;
+  /** 虚拟列表项尺寸 */
+  private _virtualSizes: number[] = [];
+  /** 虚拟列表项起始位置，最后一项为列表总尺寸 */
+  private _virtualOffsets: number[] = [0];
+  /** 已渲染的虚拟列表项（索引 -> 元素） */
+  private _virtualItems = new Map<number, HTMLElement>();
+  /** 回收的虚拟列表项元素 */
+  private _virtualPool: HTMLElement[] = [];
+  /** 已渲染的虚拟列表项索引范围 */
+  private _virtualRange: [number, number] = [0, -1];
+  /** 是否需要重新渲染所有可见的虚拟列表项 */
+  private _virtualDirty = false;
+  /** 虚拟列表中加载区域的主轴尺寸 */
+  private _virtualFooterSize = 0;
+  /** 当前吸附目标索引 */
+  private _snapIndex = 0;
+  /** 滚轮滚动停止后吸附的定时器 */
+  private _snapTimeout: number | null = null;
+  /** 分页页面元素（不含循环克隆页） */
+  private _pages: HTMLElement[] = [];
+  /** 当前页索引 */
+  private _page = 0;
+  /** 分页指示点容器元素 */
+  private _$dots: HTMLElement | null = null;
+  /** 自动播放定时器 */
+  private _autoplayTimeout: number | null = null;
+  /** 事件监听函数（监听函数 -> 是否只触发一次） */
+  private _listeners: { [K in keyof DragScrollEventMap]?: Map<DragScrollEventListener<K>, boolean> } = {};
+  /** 是否正在惯性滚动 */
+  private _momentum = false;
+  /** 是否在开头阈值范围内 */
+  private _nearStart = true;
+  /** 是否在末尾阈值范围内 */
+  private _nearEnd = false;
+  /** 吸顶标题 */
+  private _stickyHeaders: DragScrollStickyHeader[] = [];
+  /** 当前吸顶标题索引，没有吸顶标题时为 -1 */
+  private _stickyIndex = -1;
+  /** 当前吸顶标题元素 */
+  private _$sticky: HTMLElement | null = null;
+  /** 是否需要重新查找和测量吸顶标题 */
+  private _stickyDirty = true;
+  /** 待执行的恢复滚动位置帧 ID */
+  private _restoreId: number | null = null;
+  /** 当前拖拽指针的 pointerId，拖拽过程中忽略其他指针 */
+  private _pointerId: number | null = null;
+  /** 当前拖拽手势 */
+  private _gesture: DragScrollGesture | null = null;
+  /** 本次按下后指针是否已移动超过拖拽阈值 */
+  private _dragged = false;
+  /** 是否阻止拖拽释放后触发的 click */
+  private _suppressClick = false;
+  /** 当前滚动阶段 */
+  private _phase: DragScrollPhase = 'idle';
+  /** 最近一次位置变化的方向 */
+  private _direction: DragScrollDirection = 'none';
+  /** 上次平移时的位置，用于计算滚动方向 */
+  private _lastPosition = { x: 0, y: 0 };
+  /** 上次记录的容器尺寸 */
+  private _containerSize = { width: 0, height: 0 };
   /** 上一帧时间戳 */
   private _lastTimestamp!: number;
   /** 滚动动画 ID */
   private _animationId!: number;
-  /** 边界反弹阻尼 */
+  /** 边界反弹阻尼, 默认 0.6 */
   private _bounceDamping: number;
   /** 弹性系数, 默认 0.25 */
   private _spring: number;
@@ -122,33 +913,80 @@ class DragScroll {
 
     this.$container = container;
     this.options = Object.assign({}, _$DRAG_SCROLL_DEFAULT_OPTIONS$_, options) as Required<DragScrollOptions>;
-    this.$container.classList.add(_$DRAG_SCROLL_PREFIX_CLASSNAME$_, `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-container`);
-    this.$content = document.createElement('div');
-    this.$content.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-content`);
-    this.innerHtml(this.options.content);
-    this.$container.appendChild(this.$content);
 
     this.isDragging = false;
+    this._startX = 0;
     this._startY = 0;
+    this.currentX = 0;
     this.currentY = 0;
+    this.velocityX = 0;
     this.velocity = 0;
     this._animationId = null!;
     this._lastTimestamp = 0;
 
     // 物理参数
-    this._spring = 0.25; // 弹性系数
-    this._friction = 0.92; // 摩擦力
-    this._bounceDamping = 0.6; // 边界反弹阻尼
-    this._maxVelocity = 30; // 最大速度限制
+    const { friction, spring, bounceDamping, maxVelocity } = _$DRAG_SCROLL_PHYSICS_PRESETS$_.default;
+    this._spring = spring; // 弹性系数
+    this._friction = friction; // 摩擦力
+    this._bounceDamping = bounceDamping; // 边界反弹阻尼
+    this._maxVelocity = maxVelocity; // 最大速度限制
+    this.physics = this.options.physics;
 
-    if (!this.options.hideScrollbar) {
-      this._renderScrollbar();
+    this.$container.classList.add(
+      _$DRAG_SCROLL_PREFIX_CLASSNAME$_,
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-container`,
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-axis-${this.options.axis}`,
+    );
+    this.$content = document.createElement('div');
+    this.$content.id = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-content-${++_$DRAG_SCROLL_ID$_}`;
+    this.$content.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-content`);
+    if (this.options.virtual) {
+      // 复制一份，setItemCount 不修改传入的参数
+      this.options.virtual = { ...this.options.virtual };
+      this.$container.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-virtual`);
+      this._updateVirtualSizes(0);
+    } else if (this.options.adopt) {
+      this.$content.append(...Array.from(this.$container.childNodes));
+    } else {
+      this.innerHtml(this.options.content);
+    }
+    if (this.options.footer) {
+      this.$footer = document.createElement('div');
+      this.$footer.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-footer`;
+      this.$footer.appendChild(this._toNode(this.options.footer));
+      this.$content.appendChild(this.$footer);
+      this._updateFooter();
+    }
+    this.$container.appendChild(this.$content);
+
+    if (this.options.pullToRefresh && this.options.axis !== 'x') {
+      this.$refresh = document.createElement('div');
+      this.$refresh.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-refresh ${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-refresh-idle`;
+      this.$container.insertBefore(this.$refresh, this.$content);
     }
 
     this._onMouseDown = this._onMouseDown.bind(this);
     this._onTouchMove = this._onTouchMove.bind(this);
     this._onMouseMove = this._onMouseMove.bind(this);
     this._onMouseUp = this._onMouseUp.bind(this);
+    this._onClick = this._onClick.bind(this);
+    this._onWheel = this._onWheel.bind(this);
+    this._onKeyDown = this._onKeyDown.bind(this);
+    this._onFocusIn = this._onFocusIn.bind(this);
+    this._onReducedMotionChange = this._onReducedMotionChange.bind(this);
+    this._onPageHide = this._onPageHide.bind(this);
+    this._onScrollbarPointerDown = this._onScrollbarPointerDown.bind(this);
+    this._onScrollbarPointerMove = this._onScrollbarPointerMove.bind(this);
+    this._onScrollbarPointerUp = this._onScrollbarPointerUp.bind(this);
+    this._onScrollbarHover = this._onScrollbarHover.bind(this);
+    this._onContainerHover = this._onContainerHover.bind(this);
+    this._scheduleRefresh = this._scheduleRefresh.bind(this);
+    this._animate = this._animate.bind(this);
+    this._animateTween = this._animateTween.bind(this);
+
+    if (!this.options.hideScrollbar) {
+      this._renderScrollbar();
+    }
 
     this.readonly = this.options.readonly;
 
@@ -180,7 +1018,57 @@ class DragScroll {
   }
 
   /**
-   * 只读属性
+   * 物理参数，可在运行时通过预设名称或部分参数修改，参数不合法时抛出错误
+   * @example
+   * ```ts
+   * dragScroll.physics = 'ios-like';
+   * dragScroll.physics = { friction: 0.95 };
+   * const { friction, spring } = dragScroll.physics;
+   * ```
+   */
+  get physics(): DragScrollPhysics {
+    return {
+      friction: this._friction,
+      spring: this._spring,
+      bounceDamping: this._bounceDamping,
+      maxVelocity: this._maxVelocity,
+    };
+  }
+
+  set physics(value: DragScrollPhysicsPreset | Partial<DragScrollPhysics>) {
+    let physics: DragScrollPhysics;
+    if (typeof value === 'string') {
+      if (!Object.prototype.hasOwnProperty.call(_$DRAG_SCROLL_PHYSICS_PRESETS$_, value)) {
+        throw new Error(`physics preset '${value}' is not supported`);
+      }
+      physics = _$DRAG_SCROLL_PHYSICS_PRESETS$_[value];
+    } else {
+      physics = Object.assign(this.physics, value);
+    }
+
+    // 参数校验，避免动画发散
+    const { friction, spring, bounceDamping, maxVelocity } = physics;
+    if (!(friction > 0 && friction < 1)) {
+      throw new Error(`physics.friction must be a number in (0, 1), received ${friction}`);
+    }
+    if (!(spring > 0 && spring < 1)) {
+      throw new Error(`physics.spring must be a number in (0, 1), received ${spring}`);
+    }
+    if (!(bounceDamping >= 0 && bounceDamping < 1)) {
+      throw new Error(`physics.bounceDamping must be a number in [0, 1), received ${bounceDamping}`);
+    }
+    if (!(maxVelocity > 0 && isFinite(maxVelocity))) {
+      throw new Error(`physics.maxVelocity must be a finite number greater than 0, received ${maxVelocity}`);
+    }
+
+    this._friction = friction;
+    this._spring = spring;
+    this._bounceDamping = bounceDamping;
+    this._maxVelocity = maxVelocity;
+  }
+
+  /**
+   * 只读属性
    */
   get readonly() {
     return this._readonly;
@@ -199,11 +1087,58 @@ class DragScroll {
   }
 
   /**
-   * 内容是否可滚动
+   * 当前页索引（分页模式）
+   */
+  get page() {
+    return this._page;
+  }
+
+  /**
+   * 是否正在加载（`onReachStart`、`onReachEnd` 返回的 Promise 未完成）
+   */
+  get loading() {
+    return this._loading;
+  }
+
+  /**
+   * 是否还有更多内容，为 false 时不再触发 `onReachEnd`
+   * @example
+   * ```ts
+   * dragScroll.hasMore = page < totalPages;
+   * ```
+   */
+  get hasMore() {
+    return this.options.hasMore;
+  }
+
+  set hasMore(value: boolean) {
+    this.options.hasMore = value;
+    this._updateFooter();
+    // 已在末尾阈值范围内时立即加载
+    this._checkReach();
+  }
+
+  /**
+   * 下拉刷新状态
+   */
+  get refreshState(): DragScrollRefreshState {
+    return this._refreshState;
+  }
+
+  /**
+   * 内容是否可滚动（开启下拉刷新时，内容不足一屏也可下拉）
    */
   get canDrag() {
-    const offsetHeight = this.$content.offsetHeight;
-    return !this.readonly && offsetHeight > this.$container.clientHeight;
+    if (this.readonly) return false;
+    if (this.options.pager) return this._pages.length > 1;
+    const { axis } = this.options;
+    if (this.options.virtual) {
+      const { x, y } = this._getMaxScroll();
+      return x > 0 || y > 0 || !!this.$refresh;
+    }
+    const canDragX = axis !== 'y' && this.$content.offsetWidth > this.$container.clientWidth;
+    const canDragY = axis !== 'x' && (!!this.$refresh || this.$content.offsetHeight > this.$container.clientHeight);
+    return canDragX || canDragY;
   }
 
   /**
@@ -231,315 +1166,2654 @@ class DragScroll {
     this.$container.style.cssText += css;
 
     this._applyTransform();
+    this._checkResize();
   }
 
   /**
-   * 设置 HTML 内容
-   * @param html HTML 字符串或返回 HTML 字符串的函数
+   * 设置内容，HTML 字符串会先经过 `sanitize` 净化
+   * @param html HTML 字符串、DOM 节点、元素数组或返回以上内容的函数
    * @example
    * ```ts
    * dragScroll.innerHtml('<div>New Content</div>');
    * dragScroll.innerHtml(() => '<div>Dynamic Content</div>');
+   * dragScroll.innerHtml(document.getElementById('list'));
    * ```
    */
-  innerHtml(html: string | (() => string)) {
-    this.$content.innerHTML = typeof html === 'function' ? html() : html;
+  innerHtml(html: DragScrollContent) {
+    this.$content.replaceChildren(this._toNode(html));
+    if (this.$footer) this.$content.appendChild(this.$footer);
+    this._stickyDirty = true;
     this._applyTransform();
+    // 构造时由 `_init` 在下一帧检查
+    if (this.$content.parentNode) this._checkReach();
   }
 
   /**
-   * Y轴滚动到指定位置
-   * @param y Y轴平移值 （需正值不支持负值）
+   * 在内容末尾（加载区域之前）追加内容，滚动位置保持不变
+   * @param content HTML 字符串、DOM 节点、元素数组或返回以上内容的函数
    * @example
    * ```ts
-   * dragScroll.scrollToY(200);
-   * dragScroll.scrollToY(0); // 平移到顶部
-   * dragScroll.scrollToY(-2); // 无效
+   * dragScroll.append('<div>More</div>');
+   * dragScroll.append([item1, item2]);
    * ```
    */
-  scrollToY(y: number, triggerChange = true) {
-    const maxScroll = this.$content.scrollHeight - this.$container.clientHeight;
-    // 边界检查
-    if (y < 0 || y > maxScroll) return;
-    this.currentY = y;
-    this.velocity = 0;
-    this._applyTransform();
-    if (triggerChange) this._updateState();
+  append(content: DragScrollContent) {
+    this.$content.insertBefore(this._toNode(content), this.$footer);
+    this._stickyDirty = true;
+    this._applyTransform(this._isOverscrollActive());
+    this._checkReach();
   }
 
   /**
-   * 销毁方法，用于清理资源
+   * 在内容开头插入内容，并按新增内容的尺寸调整滚动位置，使当前可见的内容保持不动
+   * @param content HTML 字符串、DOM 节点、元素数组或返回以上内容的函数
    * @example
    * ```ts
-   * dragScroll.destroy();
-   * dragScroll = null;
+   * dragScroll.prepend('<div>History</div>');
    * ```
    */
-  destroy() {
-    if (this._animationId) {
-      cancelAnimationFrame(this._animationId);
-      this._animationId = null!;
+  prepend(content: DragScrollContent) {
+    const { scrollWidth, scrollHeight } = this.$content;
+    this.$content.insertBefore(this._toNode(content), this.$content.firstChild);
+    this._stickyDirty = true;
+    const { axis } = this.options;
+    const dx = axis === 'y' ? 0 : this.$content.scrollWidth - scrollWidth;
+    const dy = axis === 'x' ? 0 : this.$content.scrollHeight - scrollHeight;
+    if (!dx && !dy) {
+      this._applyTransform(this._isOverscrollActive());
+      return;
     }
 
-    if (this._indicatorTimeout) {
-      clearTimeout(this._indicatorTimeout);
-      this._indicatorTimeout = null;
+    // 平移当前位置、拖拽采样点和进行中的滚动动画
+    this.currentX += dx;
+    this.currentY += dy;
+    this._lastPosition.x += dx;
+    this._lastPosition.y += dy;
+    this._samples.forEach(sample => {
+      sample.x += dx;
+      sample.y += dy;
+    });
+    if (this._tween) {
+      this._tween.fromX += dx;
+      this._tween.toX += dx;
+      this._tween.fromY += dy;
+      this._tween.toY += dy;
     }
-
-    if (this.$container) this.$container.style.cursor = 'default';
-
-    this._$scrollbarThumb?.remove();
-    this._$scrollbarThumb = null;
-    this._$scrollbar?.remove();
-    this._$scrollbar = null;
-    this.$content?.remove();
-    this.$content = null!;
-
-    this._removeEventListeners();
+    this._applyTransform(this._isOverscrollActive());
+    this._updateState();
   }
 
-  // ---------------------------------------------------------------------- //
-  // 私有方法
-  // ---------------------------------------------------------------------- //
-
-  private _renderScrollbar() {
-    this._$scrollbar = document.createElement('div');
-    this._$scrollbar.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar`;
-    this._$scrollbarThumb = document.createElement('div');
-    this._$scrollbarThumb.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar-thumb`;
-    this._$scrollbar.appendChild(this._$scrollbarThumb);
-    this.$container.appendChild(this._$scrollbar);
+  /**
+   * 重新计算滚动范围和滚动条，当前位置超出新的范围时限制在边界内
+   * 内容尺寸在实例外部发生变化（图片加载、字体变化、框架更新 DOM 等）后调用，开启 `observe` 时会自动调用
+   * 虚拟列表模式下会重新渲染可见的列表项（列表数据变化后调用），分页模式下会更新页面并对齐到当前页
+   * @example
+   * ```ts
+   * list.appendChild(item);
+   * dragScroll.refresh();
+   * ```
+   */
+  refresh() {
+    if (this._refreshId) {
+      cancelAnimationFrame(this._refreshId);
+      this._refreshId = null;
+    }
+    // 虚拟列表重新渲染可见的列表项
+    this._virtualDirty = true;
+    if (this.options.virtual) this._updateVirtualFooter();
+    this._stickyDirty = true;
+    if (this.options.pager) this._updatePages();
+    this._checkResize();
+    // 拖拽或动画过程中由下一帧自行处理边界，避免打断越界拖拽和回弹
+    if (this.isDragging || this._animationId) {
+      this._updateScrollbar();
+      return;
+    }
+    const { currentX, currentY } = this;
+    // 分页模式对齐到当前页（容器尺寸可能已变化）
+    if (this.options.pager) {
+      const position = this._getPagePosition(this._getPageSlot(this._page));
+      if (this._getMainAxis() === 'x') {
+        this.currentX = position;
+      } else {
+        this.currentY = position;
+      }
+    }
+    this._applyTransform();
+    if (this.currentX !== currentX || this.currentY !== currentY) {
+      this._updateState();
+    } else {
+      // 位置未变化时内容尺寸仍可能变化（如内容不足一屏）
+      this._checkReach();
+    }
   }
 
-  // 初始化
-  private _init() {
-    this.resize(this.options.width, this.options.height);
-    this._addEventListeners();
-    // 初始化滚动条
-    this._updateScrollbar();
-    // 弹性动画
-    // this._animationId = requestAnimationFrame(this._animate.bind(this));
+  /**
+   * Y轴滚动到指定位置（立即滚动，会中断正在进行的动画）
+   * @param y Y轴平移值，超出范围时限制在边界内
+   * @param triggerChange 是否触发 onChange，默认 true
+   * @example
+   * ```ts
+   * dragScroll.scrollToY(200);
+   * dragScroll.scrollToY(0); // 平移到顶部
+   * dragScroll.scrollToY(-2); // 同 scrollToY(0)
+   * ```
+   */
+  scrollToY(y: number, triggerChange = true) {
+    this._scrollTo(this.currentX, y, triggerChange);
   }
 
-  //  ----------- 事件处理 -----------  //
   /**
-   * 添加事件监听器
+   * X轴滚动到指定位置（`axis` 为 `x` 或 `both` 时有效，立即滚动，会中断正在进行的动画）
+   * @param x X轴平移值，超出范围时限制在边界内
+   * @param triggerChange 是否触发 onChange，默认 true
+   * @example
+   * ```ts
+   * dragScroll.scrollToX(200);
+   * dragScroll.scrollToX(0); // 平移到最左侧
+   * dragScroll.scrollToX(-2); // 同 scrollToX(0)
+   * ```
    */
-  private _addEventListeners() {
-    // 添加事件监听器
-    this.$container.addEventListener('pointerdown', this._onMouseDown);
-    document.addEventListener('pointermove', this._onMouseMove);
-    // 务必同时监听 pointerup 和 pointercancel，都要做收尾和状态清理，否则会出现“拖动卡死”问题
-    document.addEventListener('pointerup', this._onMouseUp); // 指针正常抬起时
-    document.addEventListener('pointercancel', this._onMouseUp); // 指针操作被系统/外部原因打断时
+  scrollToX(x: number, triggerChange = true) {
+    this._scrollTo(x, this.currentY, triggerChange);
   }
 
   /**
-   * 移除事件监听器
+   * 以动画滚动到指定位置，拖拽或再次滚动会中断当前动画（系统偏好减少动画时立即滚动）
+   * @param options 滚动参数
+   * @returns Promise - 动画完成时 resolve，被中断时 reject
+   * @example
+   * ```ts
+   * await dragScroll.scrollTo({ y: 0 }); // 回到顶部
+   * await dragScroll.scrollTo({ y: 800, duration: 500, easing: 'easeInOutCubic' });
+   * await dragScroll.scrollTo({ x: 200, easing: t => t * t });
+   * ```
    */
-  private _removeEventListeners() {
-    this.$container.removeEventListener('touchmove', this._onTouchMove);
-    // 移除事件监听器
-    this.$container.removeEventListener('pointerdown', this._onMouseDown);
-    document.removeEventListener('pointermove', this._onMouseMove);
-    document.removeEventListener('pointerup', this._onMouseUp);
-    document.removeEventListener('pointercancel', this._onMouseUp);
+  scrollTo(options: DragScrollToOptions = {}): Promise<void> {
+    const { x = this.currentX, y = this.currentY, duration = 300, easing = 'easeOutCubic' } = options;
+    const easingFunction = typeof easing === 'function' ? easing : _$DRAG_SCROLL_EASINGS$_[easing];
+    if (!easingFunction) {
+      return Promise.reject(new Error(`easing '${easing}' is not supported`));
+    }
+
+    this._stopAnimation();
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    const toX = Math.min(Math.max(x, 0), maxScrollX);
+    const toY = Math.min(Math.max(y, 0), maxScrollY);
+
+    if (duration <= 0 || this._reducedMotion || (toX === this.currentX && toY === this.currentY)) {
+      this._scrollTo(toX, toY, true);
+      return Promise.resolve();
+    }
+
+    this._phase = 'programmatic';
+    return new Promise<void>((resolve, reject) => {
+      this._tween = {
+        fromX: this.currentX,
+        fromY: this.currentY,
+        toX,
+        toY,
+        startTime: performance.now(),
+        duration,
+        easing: easingFunction,
+        resolve,
+        reject,
+      };
+      this.velocityX = 0;
+      this.velocity = 0;
+      this._toggleScrollbar(true);
+      this._animationId = requestAnimationFrame(this._animateTween);
+    });
   }
 
   /**
-   * 鼠标按下
-   * @param e 鼠标事件
+   * 滚动到内容中的指定元素
+   * @param target 元素或选择器（在 `$content` 内查找）
+   * @param options 对齐方式、偏移量和动画参数
+   * @returns Promise - 滚动完成时 resolve，元素不存在或动画被中断时 reject
+   * @example
+   * ```ts
+   * dragScroll.scrollToElement('#item_11');
+   * dragScroll.scrollToElement(el, { align: 'center', animate: false });
+   * dragScroll.scrollToElement(el, { align: 'nearest', offset: -60, animate: { duration: 500 } });
+   * ```
    */
-  private _onMouseDown(e: PointerEvent) {
-    if (!this.canDrag) return;
-    this._startDrag(e.clientY);
-    this.options.onDragStart?.(e);
+  scrollToElement(target: HTMLElement | string, options: DragScrollToElementOptions = {}): Promise<void> {
+    const $el = typeof target === 'string' ? this.$content.querySelector<HTMLElement>(target) : target;
+    if (!$el || $el === this.$content || !this.$content.contains($el)) {
+      return Promise.reject(new Error('target element is not found in content'));
+    }
+
+    const { align = 'start', offset = 0, animate = true } = options;
+    const { axis } = this.options;
+    const rect = $el.getBoundingClientRect();
+    const contentRect = this.$content.getBoundingClientRect();
+    // 元素在内容中的位置（两者都受当前 transform 影响，差值即为内容坐标）
+    const x = axis === 'y' ? this.currentX : this._getAlignedPosition(rect.left - contentRect.left, rect.width, 'x', align) + offset;
+    const y = axis === 'x' ? this.currentY : this._getAlignedPosition(rect.top - contentRect.top, rect.height, 'y', align) + offset;
+
+    return this.scrollTo({
+      x,
+      y,
+      ...(typeof animate === 'object' ? animate : { duration: animate ? undefined : 0 }),
+    });
   }
 
   /**
-   * 触摸移动
-   * @param e 触摸移动事件
+   * 滚动到指定索引的列表项（虚拟列表模式下按列表项尺寸计算，否则为 `$content` 的第 index 个子元素）
+   * @param index 列表项索引
+   * @param options 对齐方式、偏移量和动画参数
+   * @returns Promise - 滚动完成时 resolve，索引超出范围或动画被中断时 reject
+   * @example
+   * ```ts
+   * dragScroll.scrollToIndex(5000);
+   * dragScroll.scrollToIndex(20, { align: 'center', animate: false });
+   * ```
    */
-  private _onTouchMove(e: TouchEvent) {
-    e.preventDefault();
+  scrollToIndex(index: number, options: DragScrollToElementOptions = {}): Promise<void> {
+    const { virtual } = this.options;
+    if (!virtual) {
+      const $el = this.$content.children[index];
+      return $el instanceof HTMLElement ? this.scrollToElement($el, options) : Promise.reject(new Error(`index ${index} is out of range`));
+    }
+    if (!(index >= 0 && index < virtual.itemCount)) {
+      return Promise.reject(new Error(`index ${index} is out of range`));
+    }
+
+    const { align = 'start', offset = 0, animate = true } = options;
+    const axis = this._getMainAxis();
+    const position = this._getAlignedPosition(this._virtualOffsets[index], this._virtualSizes[index], axis, align) + offset;
+
+    return this.scrollTo({
+      x: axis === 'x' ? position : this.currentX,
+      y: axis === 'y' ? position : this.currentY,
+      ...(typeof animate === 'object' ? animate : { duration: animate ? undefined : 0 }),
+    });
   }
 
   /**
-   * 开始拖拽
-   * @param clientY 鼠标或触摸的 Y 坐标
+   * 更新虚拟列表项数量，已测量的列表项尺寸保留，并重新渲染可见的列表项
+   * @param itemCount 列表项数量
+   * @example
+   * ```ts
+   * items.push(...nextPage);
+   * dragScroll.setItemCount(items.length);
+   * ```
    */
-  private _startDrag(clientY: number) {
-    if (!this.canDrag) return;
-    this.isDragging = true;
-    this._startY = clientY;
-    this.velocity = 0;
-    this._$scrollbar?.classList?.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-show`);
-    // 更新光标样式
-    this.$container.style.cursor = 'grabbing';
+  setItemCount(itemCount: number) {
+    const { virtual } = this.options;
+    if (!virtual) return;
+    virtual.itemCount = itemCount;
+    this._updateVirtualSizes(0);
+    this.refresh();
   }
 
   /**
-   * 鼠标移动
-   * @param e 鼠标事件
+   * 吸附到下一个吸附点（分页模式下切换到下一页，未设置 `snap` 时按容器尺寸翻到下一页）
+   * @returns Promise - 滚动完成时 resolve，动画被中断时 reject
+   * @example
+   * ```ts
+   * nextButton.onclick = () => dragScroll.next();
+   * ```
    */
-  private _onMouseMove(e: MouseEvent) {
-    // e.preventDefault();
-    if (!this.canDrag) return;
-    if (!this.isDragging) return;
-    this._drag(e.clientY);
-    this.options.onDragging?.(0, this.currentY);
+  next(): Promise<void> {
+    return this.options.pager ? this._goToSlot(this._getPageSlot(this._page) + 1) : this._snapBy(1);
   }
 
   /**
-   * 拖动
-   * @param clientY 鼠标或触摸的 Y 坐标
+   * 吸附到上一个吸附点（分页模式下切换到上一页，未设置 `snap` 时按容器尺寸翻到上一页）
+   * @returns Promise - 滚动完成时 resolve，动画被中断时 reject
+   * @example
+   * ```ts
+   * prevButton.onclick = () => dragScroll.prev();
+   * ```
    */
-  private _drag(clientY: number) {
-    if (!this.canDrag) return;
-    const deltaY = this._startY - clientY;
-    this._startY = clientY;
-
-    // 更新位置
-    this.currentY += deltaY;
-
-    // 计算速度（用于惯性滚动）
-    this.velocity = deltaY;
-
-    // 限制速度
-    this.velocity = Math.max(Math.min(this.velocity, this._maxVelocity), -this._maxVelocity);
-
-    this._applyTransform();
-    this._updateState();
+  prev(): Promise<void> {
+    return this.options.pager ? this._goToSlot(this._getPageSlot(this._page) - 1) : this._snapBy(-1);
   }
 
   /**
-   * 鼠标释放
+   * 切换到指定页（分页模式）
+   * @param index 页索引
+   * @param animate 是否使用动画，默认 true
+   * @returns Promise - 滚动完成时 resolve，页索引超出范围或动画被中断时 reject
+   * @example
+   * ```ts
+   * dragScroll.goTo(2);
+   * dragScroll.goTo(0, false);
+   * ```
    */
-  private _onMouseUp(e: PointerEvent) {
-    if (!this.canDrag) return;
-    if (!this.isDragging) return;
-    this.isDragging = false; // 停止拖动, 放置在最后
-    this._endDrag();
-    this.options.onDragEnd?.(e);
+  goTo(index: number, animate = true): Promise<void> {
+    if (!this.options.pager || !(index >= 0 && index < this._pages.length)) {
+      return Promise.reject(new Error(`page ${index} is out of range`));
+    }
+    return this._goToSlot(this._getPageSlot(Math.floor(index)), animate);
   }
 
   /**
-   * 结束拖动
+   * 监听事件
+   * @param type 事件名
+   * @param listener 监听函数
+   * @returns 实例本身，可链式调用
+   * @example
+   * ```ts
+   * dragScroll.on('scroll', state => console.log(state.y));
+   * dragScroll.on('reachend', loadMore).on('destroy', cleanup);
+   * ```
    */
-  private _endDrag() {
-    // 恢复光标样式
-    this.$container.style.cursor = 'grab';
-    // 延迟隐藏滚动条
-    setTimeout(() => {
-      if (!this.isDragging) this._$scrollbar?.classList.remove(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-show`);
-    }, 1500);
+  on<K extends keyof DragScrollEventMap>(type: K, listener: DragScrollEventListener<K>) {
+    return this._addListener(type, listener, false);
   }
 
   /**
-   * 平移内容
+   * 监听事件，触发一次后自动移除
+   * @param type 事件名
+   * @param listener 监听函数
+   * @returns 实例本身，可链式调用
+   * @example
+   * ```ts
+   * dragScroll.once('momentumend', () => console.log('stopped'));
+   * ```
    */
-  private _applyTransform() {
-    const offsetHeight = this.$content.offsetHeight;
-    // 内容高度小于等于容器高度时，不进行滚动
-    if (offsetHeight <= this.$container.clientHeight) {
-      this.$content.style.transform = `translate3d(0, 0, 0)`;
-      return;
-    }
-
-    const maxScroll = this.$content.scrollHeight - this.$container.clientHeight;
-    // 边界检查与弹性效果
-    if (this.currentY < 0) {
-      // 超出顶部边界
-      this.currentY = 0; // this.currentY * this._bounceDamping;
-      this.velocity *= this._bounceDamping;
-    } else if (this.currentY > maxScroll) {
-      // 超出底部边界
-      this.currentY = maxScroll; // maxScroll + (this.currentY - maxScroll) * this._bounceDamping;
-      this.velocity *= this._bounceDamping;
-    }
-    // 应用 transform
-    this.$content.style.transform = `translate3d(0, ${-this.currentY}px, 0)`;
-    this._updateScrollbar();
+  once<K extends keyof DragScrollEventMap>(type: K, listener: DragScrollEventListener<K>) {
+    return this._addListener(type, listener, true);
   }
 
   /**
-   * 动画
-   * @param timestamp 时间戳
+   * 移除事件监听，不传监听函数时移除该事件的所有监听函数
+   * @param type 事件名
+   * @param listener 监听函数
+   * @returns 实例本身，可链式调用
+   * @example
+   * ```ts
+   * dragScroll.off('scroll', onScroll);
+   * dragScroll.off('scroll');
+   * ```
    */
-  private _animate(timestamp = 0) {
-    if (this._animationId) {
-      cancelAnimationFrame(this._animationId);
-      this._animationId = null!;
+  off<K extends keyof DragScrollEventMap>(type: K, listener?: DragScrollEventListener<K>) {
+    if (listener) {
+      this._listeners[type]?.delete(listener);
+    } else {
+      delete this._listeners[type];
     }
+    return this;
+  }
 
-    const clientHeight = this.$content.offsetHeight;
-    // 内容高度小于等于容器高度时，不进行滚动
-    if (clientHeight <= this.$container.clientHeight) {
-      return;
-    }
-
-    if (!this._lastTimestamp) this._lastTimestamp = timestamp;
-    const deltaTime = Math.min(timestamp - this._lastTimestamp, 100) / 16; // 限制最大时间增量
-    this._lastTimestamp = timestamp as number;
-
-    if (!this.isDragging) {
-      // 惯性滚动
-      this.velocity *= this._friction;
-      this.currentY += this.velocity;
+  /**
+   * 获取当前滚动状态（位置、滚动范围、进度、速度、方向和滚动阶段等），可在 `requestAnimationFrame` 中读取以实现视差、吸顶收起等效果
+   * @returns DragScrollState - 当前滚动状态
+   * @example
+   * ```ts
+   * const { progress, direction, phase } = dragScroll.getState();
+   * header.classList.toggle('collapsed', direction === 'down' && phase !== 'idle');
+   * banner.style.transform = `translateY(${dragScroll.getState().y * 0.5}px)`;
+   * ```
+   */
+  getState(): DragScrollState {
+    const { axis } = this.options;
+    const velocity = axis === 'x' ? this.velocityX : axis === 'y' ? this.velocity : Math.hypot(this.velocityX, this.velocity);
+    const { x: maxX, y: maxY } = this._getMaxScroll();
+    const { x: overscrollX, y: overscrollY } = this._getOverscroll();
+    const progressX = this._getProgress(this.currentX, maxX);
+    const progressY = this._getProgress(this.currentY, maxY);
+    return {
+      x: this.currentX,
+      y: this.currentY,
+      maxX,
+      maxY,
+      progress: this._getMainAxis() === 'x' ? progressX : progressY,
+      progressX,
+      progressY,
+      velocity,
+      velocityX: this.velocityX,
+      velocityY: this.velocity,
+      overscrollX,
+      overscrollY,
+      direction: this._direction,
+      isDragging: this.isDragging,
+      isAnimating: !!(this._tween || this._momentum || this._pullAnimationId),
+      phase: this._phase,
+    };
+  }
 
-      // 弹性回弹
-      const maxScroll = this.$content.scrollHeight - this.$container.clientHeight;
+  /**
+   * 获取滚动位置快照，可序列化为 JSON，重新创建实例后通过 `restoreSnapshot` 恢复
+   * @returns DragScrollSnapshot - 当前位置和主轴方向第一个可见的内容子元素（锚点）
+   * @example
+   * ```ts
+   * const snapshot = dragScroll.getSnapshot();
+   * dragScroll.destroy();
+   * // 重新创建实例后
+   * dragScroll.restoreSnapshot(snapshot);
+   * ```
+   */
+  getSnapshot(): DragScrollSnapshot {
+    const snapshot: DragScrollSnapshot = { x: this.currentX, y: this.currentY };
+    const axis = this._getMainAxis();
+    const position = Math.max(axis === 'x' ? this.currentX : this.currentY, 0);
+    const { virtual, pager } = this.options;
 
-      if (this.currentY < 0) {
-        // 顶部弹性
-        this.velocity -= this.currentY * this._spring * deltaTime;
-      } else if (this.currentY > maxScroll) {
-        // 底部弹性
-        this.velocity -= (this.currentY - maxScroll) * this._spring * deltaTime;
+    if (pager) {
+      if (this._pages.length) snapshot.anchor = { index: this._page, offset: 0 };
+    } else if (virtual) {
+      if (virtual.itemCount) {
+        const index = this._findVirtualIndex(position);
+        snapshot.anchor = { index, offset: position - this._virtualOffsets[index] };
       }
-
-      this._applyTransform();
-      this._updateState();
-
-      // 当速度足够小时停止动画
-      if (Math.abs(this.velocity) < 0.1 && this.currentY >= 0 && this.currentY <= maxScroll) {
-        this.velocity = 0;
+    } else {
+      const children = Array.from(this.$content.children) as HTMLElement[];
+      // 主轴方向第一个末尾在可见区域内的子元素（不含加载更多和正在吸顶的标题）
+      const index = children.findIndex($child => {
+        if ($child === this.$footer || $child === this._$sticky) return false;
+        const { start, size } = this._getContentOffset($child, axis);
+        return start + size > position;
+      });
+      if (index >= 0) {
+        const $anchor = children[index];
+        snapshot.anchor = { index, offset: position - this._getContentOffset($anchor, axis).start };
+        if ($anchor.id) snapshot.anchor.id = $anchor.id;
       }
     }
+    return snapshot;
   }
 
   /**
-   * 更新滚动条
+   * 恢复滚动位置快照（不使用动画），锚点元素存在时按锚点元素的当前位置恢复主轴位置，否则恢复到快照记录的位置
+   * @param snapshot 滚动位置快照
+   * @example
+   * ```ts
+   * dragScroll.restoreSnapshot(JSON.parse(sessionStorage.getItem('list')!));
+   * ```
    */
-  private _updateScrollbar() {
-    const containerHeight = this.$container.clientHeight;
-    const contentHeight = this.$content.scrollHeight;
-    const maxScroll = contentHeight - containerHeight;
+  restoreSnapshot(snapshot: DragScrollSnapshot) {
+    const { anchor } = snapshot;
+    let { x, y } = snapshot;
+    const { virtual, pager } = this.options;
 
-    if (maxScroll <= 0) {
-      if (this._$scrollbarThumb) this._$scrollbarThumb.style.height = '0';
+    if (pager) {
+      if (anchor && anchor.index >= 0 && anchor.index < this._pages.length) this.goTo(anchor.index, false).catch(() => {});
       return;
     }
-
-    // 计算滚动条高度和位置
-    const thumbHeight = Math.max((containerHeight / contentHeight) * containerHeight, 20);
-    const thumbPosition = (this.currentY / maxScroll) * (containerHeight - thumbHeight);
-
-    if (this._$scrollbarThumb) {
-      this._$scrollbarThumb.style.height = `${thumbHeight}px`;
-      this._$scrollbarThumb.style.transform = `translateY(${thumbPosition}px)`;
+    if (anchor) {
+      let start: number | null = null;
+      if (virtual) {
+        if (anchor.index >= 0 && anchor.index < virtual.itemCount) start = this._virtualOffsets[anchor.index];
+      } else {
+        const children = Array.from(this.$content.children) as HTMLElement[];
+        const $anchor = anchor.id ? children.find($child => $child.id === anchor.id) : children[anchor.index];
+        if ($anchor && $anchor !== this.$footer) start = this._getContentOffset($anchor, this._getMainAxis()).start;
+      }
+      if (start !== null) {
+        if (this._getMainAxis() === 'x') {
+          x = start + anchor.offset;
+        } else {
+          y = start + anchor.offset;
+        }
+      }
     }
+    this._scrollTo(x, y, true);
   }
 
   /**
-   * 更新统计信息
+   * 销毁方法，用于清理资源
+   * @example
+   * ```ts
+   * dragScroll.destroy();
+   * dragScroll = null;
+   * ```
+   */
+  destroy() {
+    // 已销毁
+    if (!this.$content) return;
+    this._emit('destroy', undefined);
+    if (this.options.persistKey) this._saveSnapshot();
+    if (this._restoreId) {
+      cancelAnimationFrame(this._restoreId);
+      this._restoreId = null;
+    }
+    this._stopAnimation();
+    this._unobserve();
+    if (this._pullAnimationId) {
+      cancelAnimationFrame(this._pullAnimationId);
+      this._pullAnimationId = null;
+    }
+    this.$refresh?.remove();
+    this.$refresh = null;
+    this.$footer?.remove();
+    this.$footer = null;
+    this._virtualItems.clear();
+    this._virtualPool = [];
+
+    if (this._indicatorTimeout) {
+      clearTimeout(this._indicatorTimeout);
+      this._indicatorTimeout = null;
+    }
+    if (this._snapTimeout) {
+      clearTimeout(this._snapTimeout);
+      this._snapTimeout = null;
+    }
+    if (this._autoplayTimeout) {
+      clearTimeout(this._autoplayTimeout);
+      this._autoplayTimeout = null;
+    }
+    this._$dots?.remove();
+    this._$dots = null;
+    this._pages.forEach($page => $page.classList.remove(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-page`));
+    this._pages = [];
+    this._stickyHeaders.forEach(({ $header }) => this._resetStickyHeader($header));
+    this._stickyHeaders = [];
+    this._$sticky = null;
+    this.$content?.querySelectorAll(`:scope > .${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-page-clone`).forEach($clone => $clone.remove());
+
+    if (this.$container) this.$container.style.cursor = 'default';
+    this._addedAttributes.forEach(name => this.$container.removeAttribute(name));
+    this._addedAttributes = [];
+
+    this._scrollbarDrag = null;
+    this._$scrollbarThumb?.remove();
+    this._$scrollbarThumb = null;
+    this._$scrollbar?.remove();
+    this._$scrollbar = null;
+    this._$scrollbarThumbX?.remove();
+    this._$scrollbarThumbX = null;
+    this._$scrollbarX?.remove();
+    this._$scrollbarX = null;
+    // 将接管的子节点移回容器
+    if (this.options.adopt && this.$content) {
+      this.$content.style.transform = '';
+      this.$container.append(...Array.from(this.$content.childNodes));
+    }
+    this.$content?.remove();
+    this.$content = null!;
+
+    this._removeEventListeners();
+    this._listeners = {};
+    if (_$DRAG_SCROLL_INSTANCES$_.get(this.$container) === this) _$DRAG_SCROLL_INSTANCES$_.delete(this.$container);
+  }
+
+  // ---------------------------------------------------------------------- //
+  // 私有方法
+  // ---------------------------------------------------------------------- //
+
+  private _renderScrollbar() {
+    const { axis } = this.options;
+    if (axis !== 'x') {
+      [this._$scrollbar, this._$scrollbarThumb] = this._createScrollbar('y');
+    }
+    if (axis !== 'y') {
+      [this._$scrollbarX, this._$scrollbarThumbX] = this._createScrollbar('x');
+    }
+  }
+
+  /**
+   * 创建滚动条
+   * @param axis 滚动条方向
+   * @returns [滚动条元素, 滚动条指示器元素]
+   */
+  private _createScrollbar(axis: 'x' | 'y'): [HTMLElement, HTMLElement] {
+    const $scrollbar = document.createElement('div');
+    $scrollbar.className =
+      axis === 'x'
+        ? `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar ${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar-x`
+        : `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar`;
+    $scrollbar.setAttribute('role', 'scrollbar');
+    $scrollbar.setAttribute('aria-controls', this.$content.id);
+    $scrollbar.setAttribute('aria-orientation', axis === 'x' ? 'horizontal' : 'vertical');
+    $scrollbar.setAttribute('aria-valuemin', '0');
+    $scrollbar.setAttribute('aria-valuemax', '0');
+    $scrollbar.setAttribute('aria-valuenow', '0');
+    const $thumb = document.createElement('div');
+    $thumb.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-bar-thumb`;
+    $scrollbar.appendChild($thumb);
+    $scrollbar.addEventListener('pointerdown', this._onScrollbarPointerDown);
+    $scrollbar.addEventListener('pointerenter', this._onScrollbarHover);
+    $scrollbar.addEventListener('pointerleave', this._onScrollbarHover);
+    this.$container.appendChild($scrollbar);
+    return [$scrollbar, $thumb];
+  }
+
+  /**
+   * 标记是否正在滚动，并更新滚动条显示状态
+   * @param active 是否正在滚动
+   */
+  private _toggleScrollbar(active: boolean) {
+    this._scrollbarActive = active;
+    this._updateScrollbarVisibility();
+  }
+
+  /**
+   * 根据显示方式、滚动和悬停状态更新滚动条显示状态
+   */
+  private _updateScrollbarVisibility() {
+    const { scrollbarVisibility } = this.options;
+    const visible =
+      scrollbarVisibility === 'always' ||
+      this._scrollbarActive ||
+      this._scrollbarHovered ||
+      !!this._scrollbarDrag ||
+      (scrollbarVisibility === 'hover' && this._containerHovered);
+    this._$scrollbar?.classList.toggle(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-show`, visible);
+    this._$scrollbarX?.classList.toggle(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-show`, visible);
+  }
+
+  /**
+   * 鼠标进入或离开滚动条
+   * @param e 指针事件
+   */
+  private _onScrollbarHover(e: PointerEvent) {
+    this._scrollbarHovered = e.type === 'pointerenter';
+    this._updateScrollbarVisibility();
+  }
+
+  /**
+   * 鼠标进入或离开容器
+   * @param e 指针事件
+   */
+  private _onContainerHover(e: PointerEvent) {
+    this._containerHovered = e.type === 'pointerenter';
+    this._updateScrollbarVisibility();
+    // 鼠标悬停时暂停自动播放
+    this._scheduleAutoplay();
+  }
+
+  /**
+   * 滚动条按下：按下指示器时开始拖拽指示器，按下滑轨时向点击位置翻页
+   * @param e 指针事件
+   */
+  private _onScrollbarPointerDown(e: PointerEvent) {
+    // 阻止触发内容拖拽
+    e.stopPropagation();
+    if (!this.canDrag) return;
+    e.preventDefault();
+
+    const axis = e.currentTarget === this._$scrollbarX ? 'x' : 'y';
+    const $thumb = axis === 'x' ? this._$scrollbarThumbX : this._$scrollbarThumb;
+    if (!$thumb) return;
+    const pointer = axis === 'x' ? e.clientX : e.clientY;
+
+    if (e.target === $thumb) {
+      this._stopAnimation();
+      this._scrollbarDrag = { axis, pointerId: e.pointerId, start: pointer, startPosition: axis === 'x' ? this.currentX : this.currentY };
+      if (typeof $thumb.setPointerCapture === 'function') $thumb.setPointerCapture(e.pointerId);
+      document.addEventListener('pointermove', this._onScrollbarPointerMove);
+      document.addEventListener('pointerup', this._onScrollbarPointerUp);
+      document.addEventListener('pointercancel', this._onScrollbarPointerUp);
+      this._updateScrollbarVisibility();
+      return;
+    }
+
+    // 点击滑轨，向点击位置翻页
+    const thumbRect = $thumb.getBoundingClientRect();
+    const containerSize = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const direction = pointer < (axis === 'x' ? thumbRect.left : thumbRect.top) ? -1 : 1;
+    if ((this.options.pager || this.options.snap) && axis === this._getMainAxis()) {
+      this._stepSnap(direction);
+      return;
+    }
+    const page = containerSize * _$DRAG_SCROLL_PAGE_RATIO$_ * direction;
+    this._scrollBy(axis === 'x' ? page : 0, axis === 'y' ? page : 0, true);
+  }
+
+  /**
+   * 拖拽滚动条指示器，按 `_updateScrollbarThumb` 的逆运算将指示器位移换算为平移位置
+   * @param e 指针事件
+   */
+  private _onScrollbarPointerMove(e: PointerEvent) {
+    const drag = this._scrollbarDrag;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+
+    const { axis } = drag;
+    const containerSize = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const maxScroll = this._getMaxScroll()[axis];
+    const track = containerSize - this._getThumbSize(containerSize, maxScroll);
+    if (track <= 0) return;
+
+    const pointer = axis === 'x' ? e.clientX : e.clientY;
+    const position = drag.startPosition + ((pointer - drag.start) * maxScroll) / track;
+    if (axis === 'x') {
+      this._scrollTo(position, this.currentY, true, 'drag');
+    } else {
+      this._scrollTo(this.currentX, position, true, 'drag');
+    }
+  }
+
+  /**
+   * 结束拖拽滚动条指示器
+   * @param e 指针事件
+   */
+  private _onScrollbarPointerUp(e: PointerEvent) {
+    if (!this._scrollbarDrag || e.pointerId !== this._scrollbarDrag.pointerId) return;
+    this._scrollbarDrag = null;
+    this._phase = 'idle';
+    document.removeEventListener('pointermove', this._onScrollbarPointerMove);
+    document.removeEventListener('pointerup', this._onScrollbarPointerUp);
+    document.removeEventListener('pointercancel', this._onScrollbarPointerUp);
+    this._updateScrollbarVisibility();
+    this._hideScrollbarLater();
+  }
+
+  /**
+   * 立即滚动到指定位置，超出范围时限制在边界内
+   * @param x X轴平移值
+   * @param y Y轴平移值
+   * @param triggerChange 是否触发 onChange
+   * @param phase 滚动阶段，滚动后回到 `idle`（拖拽滚动条过程中保持 `drag`）
+   */
+  private _scrollTo(x: number, y: number, triggerChange: boolean, phase: DragScrollPhase = 'programmatic') {
+    this._stopAnimation();
+    this._phase = phase;
+    this.currentX = x;
+    this.currentY = y;
+    this.velocityX = 0;
+    this.velocity = 0;
+    this._applyTransform();
+    if (triggerChange) this._updateState();
+    if (!this._scrollbarDrag) this._phase = 'idle';
+  }
+
+  /**
+   * 计算元素按对齐方式对齐时的滚动位置
+   * @param start 元素在内容中的起始位置
+   * @param size 元素尺寸
+   * @param axis 方向
+   * @param align 对齐方式
+   */
+  private _getAlignedPosition(start: number, size: number, axis: 'x' | 'y', align: DragScrollAlign) {
+    const viewport = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const current = axis === 'x' ? this.currentX : this.currentY;
+    switch (align) {
+      case 'center':
+        return start - (viewport - size) / 2;
+      case 'end':
+        return start + size - viewport;
+      case 'nearest':
+        // 已完全可见时保持不动
+        if (start >= current && start + size <= current + viewport) return current;
+        return start < current || size > viewport ? start : start + size - viewport;
+      default:
+        return start;
+    }
+  }
+
+  /**
+   * 将内容转换为可插入的节点，字符串经 `sanitize` 净化后按 HTML 解析，数组合并为 DocumentFragment
+   * @param content 内容
+   */
+  private _toNode(content: DragScrollContent): Node {
+    let value = typeof content === 'function' ? content() : content;
+    if (typeof value === 'string') value = this.options.sanitize(value);
+    if (typeof value === 'string') {
+      const $template = document.createElement('template');
+      $template.innerHTML = value;
+      return $template.content;
+    }
+    if (Array.isArray(value)) {
+      const fragment = document.createDocumentFragment();
+      fragment.append(...value);
+      return fragment;
+    }
+    return value;
+  }
+
+  /**
+   * 是否处于允许越界的拖拽或动画中（`overscroll` 为 `bounce` 时），此时更新内容不应打断越界状态
+   */
+  private _isOverscrollActive() {
+    return this.options.overscroll === 'bounce' && (this.isDragging || !!this._animationId);
+  }
+
+  /**
+   * 获取最大滚动距离（未启用的轴为 0）
+   */
+  private _getMaxScroll() {
+    const { axis, virtual } = this.options;
+    // 虚拟列表的主轴尺寸由列表项尺寸计算，未启用的轴不读取尺寸，避免读取 scrollWidth/scrollHeight 触发布局
+    const virtualAxis = virtual ? this._getMainAxis() : null;
+    const total = this._virtualOffsets[this._virtualOffsets.length - 1] + this._virtualFooterSize;
+    const getScrollSize = (scrollAxis: 'x' | 'y') => {
+      if (scrollAxis === virtualAxis) return total;
+      return scrollAxis === 'x' ? this.$content.scrollWidth : this.$content.scrollHeight;
+    };
+    return {
+      x: axis === 'y' ? 0 : Math.max(getScrollSize('x') - this.$container.clientWidth, 0),
+      y: axis === 'x' ? 0 : Math.max(getScrollSize('y') - this.$container.clientHeight, 0),
+    };
+  }
+
+  /**
+   * 主轴（`axis` 为 `x` 时为 X 轴，否则为 Y 轴），用于虚拟列表和吸附
+   */
+  private _getMainAxis(): 'x' | 'y' {
+    return this.options.axis === 'x' ? 'x' : 'y';
+  }
+
+  /**
+   * 从指定索引开始更新虚拟列表项尺寸（未测量的使用 `itemSize`）和起始位置，并更新内容尺寸
+   * @param from 起始索引
+   */
+  private _updateVirtualSizes(from: number) {
+    const { itemCount, itemSize } = this.options.virtual;
+    const sizes = this._virtualSizes;
+    for (let index = sizes.length; index < itemCount; index++) {
+      sizes[index] = typeof itemSize === 'function' ? itemSize(index) : itemSize;
+    }
+    sizes.length = itemCount;
+    const offsets = this._virtualOffsets;
+    for (let index = from; index < itemCount; index++) {
+      offsets[index + 1] = offsets[index] + sizes[index];
+    }
+    offsets.length = itemCount + 1;
+    this._updateVirtualFooter();
+  }
+
+  /**
+   * 将加载区域定位在所有虚拟列表项之后，并按列表总尺寸和加载区域尺寸更新内容尺寸
+   */
+  private _updateVirtualFooter() {
+    const axis = this._getMainAxis();
+    const total = this._virtualOffsets[this._virtualOffsets.length - 1];
+    if (this.$footer) {
+      this.$footer.style.transform = axis === 'x' ? `translate3d(${total}px, 0, 0)` : `translate3d(0, ${total}px, 0)`;
+      this._virtualFooterSize = axis === 'x' ? this.$footer.offsetWidth : this.$footer.offsetHeight;
+    }
+    this.$content.style[axis === 'x' ? 'width' : 'height'] = `${total + this._virtualFooterSize}px`;
+  }
+
+  /**
+   * 查找指定位置所在的虚拟列表项索引
+   * @param position 主轴位置
+   */
+  private _findVirtualIndex(position: number) {
+    const offsets = this._virtualOffsets;
+    let low = 0;
+    let high = Math.max(offsets.length - 2, 0);
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (offsets[middle] <= position) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * 渲染可见区域和 overscan 范围内的虚拟列表项，移出范围的列表项元素回收复用
+   */
+  private _renderVirtual() {
+    const { virtual } = this.options;
+    if (!virtual) return;
+    const { itemCount, renderItem, overscan = _$DRAG_SCROLL_VIRTUAL_OVERSCAN$_ } = virtual;
+    const axis = this._getMainAxis();
+    const position = Math.max(axis === 'x' ? this.currentX : this.currentY, 0);
+    const viewport = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const start = Math.max(this._findVirtualIndex(position) - overscan, 0);
+    const end = Math.min(this._findVirtualIndex(position + viewport) + overscan, itemCount - 1);
+    const dirty = this._virtualDirty;
+    if (!dirty && start === this._virtualRange[0] && end === this._virtualRange[1]) return;
+    this._virtualDirty = false;
+    this._virtualRange = [start, end];
+
+    this._virtualItems.forEach(($item, index) => {
+      if (index >= start && index <= end) return;
+      $item.remove();
+      this._virtualItems.delete(index);
+      this._virtualPool.push($item);
+    });
+    for (let index = start; index <= end; index++) {
+      let $item = this._virtualItems.get(index);
+      if ($item && !dirty) continue;
+      if (!$item) {
+        $item = this._virtualPool.pop() || document.createElement('div');
+        $item.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-item`;
+        this._virtualItems.set(index, $item);
+      }
+      $item.dataset.index = `${index}`;
+      const content = renderItem(index, $item);
+      if (content !== undefined) $item.replaceChildren(this._toNode(content));
+      this._positionVirtualItem($item, index);
+      if (!$item.parentNode) this.$content.appendChild($item);
+    }
+
+    if (virtual.measure) this._measureVirtual();
+  }
+
+  /**
+   * 按起始位置定位虚拟列表项
+   * @param $item 列表项元素
+   * @param index 列表项索引
+   */
+  private _positionVirtualItem($item: HTMLElement, index: number) {
+    const offset = this._virtualOffsets[index];
+    $item.style.transform = this._getMainAxis() === 'x' ? `translate3d(${offset}px, 0, 0)` : `translate3d(0, ${offset}px, 0)`;
+  }
+
+  /**
+   * 测量已渲染的虚拟列表项尺寸，尺寸变化时更新起始位置
+   * 可见区域之前的列表项尺寸变化时同步调整滚动位置，使可见的列表项保持不动
+   */
+  private _measureVirtual() {
+    const axis = this._getMainAxis();
+    const first = this._findVirtualIndex(Math.max(axis === 'x' ? this.currentX : this.currentY, 0));
+    let from = -1;
+    let delta = 0;
+    this._virtualItems.forEach(($item, index) => {
+      const size = axis === 'x' ? $item.offsetWidth : $item.offsetHeight;
+      if (!size || size === this._virtualSizes[index]) return;
+      if (index < first) delta += size - this._virtualSizes[index];
+      this._virtualSizes[index] = size;
+      from = from < 0 ? index : Math.min(from, index);
+    });
+    if (from < 0) return;
+
+    this._updateVirtualSizes(from);
+    if (axis === 'x') {
+      this.currentX += delta;
+    } else {
+      this.currentY += delta;
+    }
+    // 重新定位已渲染的列表项，并渲染、测量新进入范围的列表项
+    this._virtualItems.forEach(($item, index) => this._positionVirtualItem($item, index));
+    this._virtualRange = [0, -1];
+    this._renderVirtual();
+  }
+
+  /**
+   * 按当前位置固定吸顶标题：最后一个已滚动到顶部的标题固定在容器顶部，到达所在分组末尾时随下一个标题一起被推出
+   */
+  private _renderSticky() {
+    const { sticky, axis, virtual } = this.options;
+    if (!sticky || axis === 'x' || virtual) return;
+    if (this._stickyDirty) this._measureSticky();
+
+    const headers = this._stickyHeaders;
+    let index = -1;
+    while (index + 1 < headers.length && headers[index + 1].top <= this.currentY) index++;
+    const $sticky = index >= 0 ? headers[index].$header : null;
+
+    if (this._$sticky !== $sticky) {
+      if (this._$sticky) {
+        this._$sticky.style.transform = '';
+        this._$sticky.classList.remove(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky-header-active`);
+      }
+      $sticky?.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky-header-active`);
+    }
+    if ($sticky) {
+      const { top, height } = headers[index];
+      const end = index + 1 < headers.length ? headers[index + 1].top : this.$content.offsetHeight;
+      $sticky.style.transform = `translate3d(0, ${Math.max(Math.min(this.currentY, end - height) - top, 0)}px, 0)`;
+    }
+
+    if (this._$sticky !== $sticky || this._stickyIndex !== index) {
+      this._$sticky = $sticky;
+      this._stickyIndex = index;
+      this.options.onStickyChange?.(index, $sticky);
+      this._emit('stickychange', { index, header: $sticky });
+    }
+  }
+
+  /**
+   * 查找吸顶标题并测量其在内容中的位置
+   */
+  private _measureSticky() {
+    this._stickyDirty = false;
+    // 已移出内容的标题恢复原样
+    this._stickyHeaders.forEach(({ $header }) => {
+      if (!this.$content.contains($header)) this._resetStickyHeader($header);
+    });
+    if (this._$sticky && !this.$content.contains(this._$sticky)) this._$sticky = null;
+
+    this._stickyHeaders = Array.from(this.$content.querySelectorAll<HTMLElement>(this.options.sticky!)).map($header => {
+      $header.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky-header`);
+      let top = 0;
+      // 累加到内容容器的偏移（offsetTop 不受 transform 影响）
+      for (
+        let $element: HTMLElement | null = $header;
+        $element && $element !== this.$content;
+        $element = $element.offsetParent as HTMLElement | null
+      ) {
+        top += $element.offsetTop;
+      }
+      return { $header, top, height: $header.offsetHeight };
+    });
+  }
+
+  /**
+   * 移除吸顶标题的类名和平移
+   * @param $header 标题元素
+   */
+  private _resetStickyHeader($header: HTMLElement) {
+    $header.classList.remove(
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky-header`,
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky-header-active`,
+    );
+    $header.style.transform = '';
+  }
+
+  /**
+   * 计算元素在内容中的位置和尺寸
+   * @param $el 元素
+   * @param axis 方向
+   */
+  private _getContentOffset($el: HTMLElement, axis: 'x' | 'y') {
+    const rect = $el.getBoundingClientRect();
+    const contentRect = this.$content.getBoundingClientRect();
+    // 两者都受当前 transform 影响，差值即为内容坐标
+    return axis === 'x'
+      ? { start: rect.left - contentRect.left, size: rect.width }
+      : { start: rect.top - contentRect.top, size: rect.height };
+  }
+
+  /**
+   * 保存滚动位置快照，`sessionStorage` 不可用时保存在内存中
+   */
+  private _saveSnapshot() {
+    // 尚未恢复时保留已保存的快照
+    if (this._restoreId) return;
+    const key = _$DRAG_SCROLL_PERSIST_PREFIX$_ + this.options.persistKey;
+    const snapshot = this.getSnapshot();
+    _$DRAG_SCROLL_SNAPSHOTS$_.set(key, snapshot);
+    try {
+      sessionStorage.setItem(key, JSON.stringify(snapshot));
+    } catch {
+      // 存储不可用或已满时使用内存中的快照
+    }
+  }
+
+  /**
+   * 读取保存的滚动位置快照
+   */
+  private _loadSnapshot(): DragScrollSnapshot | null {
+    const key = _$DRAG_SCROLL_PERSIST_PREFIX$_ + this.options.persistKey;
+    try {
+      const value = sessionStorage.getItem(key);
+      const snapshot = value ? JSON.parse(value) : null;
+      if (snapshot && typeof snapshot.x === 'number' && typeof snapshot.y === 'number') return snapshot;
+    } catch {
+      // 存储不可用或内容无效时使用内存中的快照
+    }
+    return _$DRAG_SCROLL_SNAPSHOTS$_.get(key) ?? null;
+  }
+
+  /**
+   * 页面隐藏（刷新、关闭、进入往返缓存）时保存滚动位置快照
+   */
+  private _onPageHide() {
+    this._saveSnapshot();
+  }
+
+  // 初始化
+  private _init() {
+    _$DRAG_SCROLL_INSTANCES$_.set(this.$container, this);
+    this.resize(this.options.width, this.options.height);
+    // 无障碍语义
+    this._setContainerAttribute('role', 'region');
+    if (this.options.ariaLabel) this._setContainerAttribute('aria-label', this.options.ariaLabel);
+    // 使容器可通过 Tab 聚焦
+    if (this.options.keyboard) this._setContainerAttribute('tabindex', '0');
+    // 偏好减少动画
+    if (typeof window.matchMedia === 'function') {
+      this._reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+      this._reducedMotion = this._reducedMotionQuery.matches;
+      this._reducedMotionQuery.addEventListener?.('change', this._onReducedMotionChange);
+    }
+    this._addEventListeners();
+    if (this.options.pager) {
+      this.$container.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-pager`);
+      this._updatePages();
+      this._goToSlot(this._getPageSlot(0), false).catch(() => {});
+    }
+    if (this.options.sticky) {
+      this.$container.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-sticky`);
+      this._renderSticky();
+    }
+    if (this.options.observe) this._observe();
+    // 初始化滚动条
+    this._updateScrollbar();
+    this._updateScrollbarVisibility();
+    // 下一帧（内容渲染完成后）刷新，内容不足一屏时触发 `onReachEnd`
+    this._scheduleRefresh();
+    // 下一帧（内容渲染完成后）恢复保存的滚动位置
+    if (this.options.persistKey) {
+      const snapshot = this._loadSnapshot();
+      if (snapshot) {
+        this._restoreId = requestAnimationFrame(() => {
+          this._restoreId = null;
+          this.restoreSnapshot(snapshot);
+        });
+      }
+      window.addEventListener('pagehide', this._onPageHide);
+    }
+  }
+
+  //  ----------- 事件处理 -----------  //
+  /**
+   * 添加事件监听器
+   */
+  private _addEventListeners() {
+    // 添加事件监听器
+    this.$container.addEventListener('pointerdown', this._onMouseDown);
+    // 捕获阶段拦截拖拽后的 click，先于内容中的元素处理
+    this.$container.addEventListener('click', this._onClick, true);
+    this.$container.addEventListener('pointerenter', this._onContainerHover);
+    this.$container.addEventListener('pointerleave', this._onContainerHover);
+    if (this.options.wheel) {
+      // 非 passive，可滚动时需要阻止页面滚动
+      this.$container.addEventListener('wheel', this._onWheel, { passive: false });
+    }
+    if (this.options.keyboard) {
+      this.$container.addEventListener('keydown', this._onKeyDown);
+      this.$container.addEventListener('focusin', this._onFocusIn);
+    }
+  }
+
+  /**
+   * 拖拽开始时监听指针移动和抬起，拖拽结束时移除，避免多个实例同时处理页面上的所有指针事件
+   */
+  private _addDragListeners() {
+    document.addEventListener('pointermove', this._onMouseMove);
+    // 务必同时监听 pointerup 和 pointercancel，都要做收尾和状态清理，否则会出现“拖动卡死”问题
+    document.addEventListener('pointerup', this._onMouseUp); // 指针正常抬起时
+    document.addEventListener('pointercancel', this._onMouseUp); // 指针操作被系统/外部原因打断时
+  }
+
+  /**
+   * 移除拖拽过程中的指针监听
+   */
+  private _removeDragListeners() {
+    document.removeEventListener('pointermove', this._onMouseMove);
+    document.removeEventListener('pointerup', this._onMouseUp);
+    document.removeEventListener('pointercancel', this._onMouseUp);
+  }
+
+  /**
+   * 移除事件监听器
+   */
+  private _removeEventListeners() {
+    this.$container.removeEventListener('touchmove', this._onTouchMove);
+    // 移除事件监听器
+    this.$container.removeEventListener('pointerdown', this._onMouseDown);
+    this.$container.removeEventListener('click', this._onClick, true);
+    this._removeDragListeners();
+    this.$container.removeEventListener('wheel', this._onWheel);
+    this.$container.removeEventListener('pointerenter', this._onContainerHover);
+    this.$container.removeEventListener('pointerleave', this._onContainerHover);
+    document.removeEventListener('pointermove', this._onScrollbarPointerMove);
+    document.removeEventListener('pointerup', this._onScrollbarPointerUp);
+    document.removeEventListener('pointercancel', this._onScrollbarPointerUp);
+    this.$container.removeEventListener('keydown', this._onKeyDown);
+    this.$container.removeEventListener('focusin', this._onFocusIn);
+    this._reducedMotionQuery?.removeEventListener?.('change', this._onReducedMotionChange);
+    window.removeEventListener('pagehide', this._onPageHide);
+    this._reducedMotionQuery = null;
+  }
+
+  /**
+   * 为容器设置属性（已存在时保留使用者的设置），并在销毁时移除
+   * @param name 属性名
+   * @param value 属性值
+   */
+  private _setContainerAttribute(name: string, value: string) {
+    if (this.$container.hasAttribute(name)) return;
+    this.$container.setAttribute(name, value);
+    this._addedAttributes.push(name);
+  }
+
+  /**
+   * 监听容器和内容的尺寸变化及内容的 DOM 变化
+   */
+  private _observe() {
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(this._scheduleRefresh);
+      this._resizeObserver.observe(this.$container);
+      this._resizeObserver.observe(this.$content);
+    }
+    // 虚拟列表的 DOM 由实例管理，无需监听
+    if (typeof MutationObserver !== 'undefined' && !this.options.virtual) {
+      // 内容自身的 style 由实例更新，只监听子节点和文本变化
+      this._mutationObserver = new MutationObserver(this._scheduleRefresh);
+      this._mutationObserver.observe(this.$content, { childList: true, subtree: true, characterData: true });
+    }
+  }
+
+  /**
+   * 停止监听尺寸和 DOM 变化
+   */
+  private _unobserve() {
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    this._mutationObserver?.disconnect();
+    this._mutationObserver = null;
+    if (this._refreshId) {
+      cancelAnimationFrame(this._refreshId);
+      this._refreshId = null;
+    }
+  }
+
+  /**
+   * 在下一帧刷新，同一帧内的多次变化只刷新一次
+   */
+  private _scheduleRefresh() {
+    if (this._refreshId) return;
+    this._refreshId = requestAnimationFrame(() => {
+      this._refreshId = null;
+      this.refresh();
+    });
+  }
+
+  /**
+   * prefers-reduced-motion 变化
+   * @param e 媒体查询事件
+   */
+  private _onReducedMotionChange(e: MediaQueryListEvent) {
+    this._reducedMotion = e.matches;
+    this._scheduleAutoplay();
+  }
+
+  /**
+   * 鼠标按下
+   * @param e 鼠标事件
+   */
+  private _onMouseDown(e: PointerEvent) {
+    if (!this.canDrag) return;
+    // 拖拽过程中按下的其他指针（第二根手指、触控笔等）不参与拖拽
+    if (this.isDragging) return;
+    if (this._isIgnored(e.target)) return;
+    // 嵌套实例共享同一次按下的手势，超过拖拽阈值时决定由哪个实例拖拽
+    let gesture = _$DRAG_SCROLL_GESTURES$_.get(e);
+    if (!gesture) {
+      gesture = { instances: [], owner: null };
+      _$DRAG_SCROLL_GESTURES$_.set(e, gesture);
+    }
+    gesture.instances.push(this);
+    this._gesture = gesture;
+    this._beginDrag(e);
+  }
+
+  /**
+   * 开始跟踪指针并开始拖拽
+   * @param e 指针事件
+   */
+  private _beginDrag(e: PointerEvent) {
+    this._pointerId = e.pointerId;
+    this._addDragListeners();
+    this._startDrag(e.clientX, e.clientY);
+  }
+
+  /**
+   * 确定由当前实例拖拽，捕获指针，指针移出容器或窗口时仍能收到事件
+   * 超过拖拽阈值后再捕获，未拖拽时 click 仍派发到按下的元素
+   * @param e 指针事件
+   */
+  private _acceptDrag(e: PointerEvent) {
+    this._dragged = true;
+    if (this._pointerId !== null && typeof this.$container.setPointerCapture === 'function') {
+      this.$container.setPointerCapture(this._pointerId);
+    }
+    this.options.onDragStart?.(e);
+    this._emit('dragstart', e);
+  }
+
+  /**
+   * 取消未超过拖拽阈值的拖拽（手势由其他实例处理），拖拽未开始，不触发拖拽结束
+   */
+  private _cancelDrag() {
+    this.isDragging = false;
+    this._pointerId = null;
+    this._gesture = null;
+    this._removeDragListeners();
+    this._samples = [];
+    this._phase = 'idle';
+    this.$container.style.cursor = 'grab';
+    this._scheduleAutoplay();
+    this._hideScrollbarLater();
+  }
+
+  /**
+   * 按拖拽方向从参与手势的实例中（由内向外）选择处理拖拽的实例
+   * 实例需支持该方向，且该方向可滚动、`overscrollBehavior` 为 `contain` 或外层没有支持该方向的实例
+   * @param deltaX X轴指针位移
+   * @param deltaY Y轴指针位移
+   */
+  private _findGestureOwner(deltaX: number, deltaY: number) {
+    const { instances } = this._gesture!;
+    const owner = instances.find(
+      (instance, index) =>
+        instance._acceptsDirection(deltaX, deltaY) &&
+        (instance._canScrollToward(deltaX, deltaY) ||
+          instance.options.overscrollBehavior === 'contain' ||
+          !instances.slice(index + 1).some(parent => parent._acceptsDirection(deltaX, deltaY))),
+    );
+    return owner ?? instances[0];
+  }
+
+  /**
+   * 拖拽过程中滚动到边界时交由外层可滚动的实例继续拖拽
+   * @param e 指针事件
+   * @returns 是否已交由外层实例
+   */
+  private _handOff(e: PointerEvent) {
+    const { overscroll, overscrollBehavior } = this.options;
+    if (overscroll === 'bounce' || overscrollBehavior === 'contain' || !this._gesture) return false;
+    const deltaX = e.clientX - this._startX;
+    const deltaY = e.clientY - this._startY;
+    if ((!deltaX && !deltaY) || !this._acceptsDirection(deltaX, deltaY) || this._canScrollToward(deltaX, deltaY)) return false;
+
+    const { instances } = this._gesture;
+    const parent = instances
+      .slice(instances.indexOf(this) + 1)
+      .find(
+        instance =>
+          instance.$content && instance.canDrag && instance._acceptsDirection(deltaX, deltaY) && instance._canScrollToward(deltaX, deltaY),
+      );
+    if (!parent) return false;
+
+    const gesture = this._gesture;
+    this._onMouseUp(e);
+    gesture.owner = parent;
+    parent._gesture = gesture;
+    parent._beginDrag(e);
+    parent._acceptDrag(e);
+    return true;
+  }
+
+  /**
+   * 指针位移的主要方向是否为当前实例的滚动方向
+   * @param deltaX X轴指针位移
+   * @param deltaY Y轴指针位移
+   */
+  private _acceptsDirection(deltaX: number, deltaY: number) {
+    const { axis } = this.options;
+    if (axis === 'both') return true;
+    return axis === 'x' ? Math.abs(deltaX) > Math.abs(deltaY) : Math.abs(deltaY) >= Math.abs(deltaX);
+  }
+
+  /**
+   * 按指针位移的主要方向，当前位置是否还能继续滚动（未到边界）
+   * @param deltaX X轴指针位移
+   * @param deltaY Y轴指针位移
+   */
+  private _canScrollToward(deltaX: number, deltaY: number) {
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    if (Math.abs(deltaX) > Math.abs(deltaY)) {
+      // 指针向右拖拽时向开头滚动
+      return deltaX > 0 ? this.currentX > 0 : this.currentX < maxScrollX;
+    }
+    // 顶部向下拖拽时可下拉刷新
+    if (deltaY > 0 && this.$refresh) return true;
+    return deltaY > 0 ? this.currentY > 0 : this.currentY < maxScrollY;
+  }
+
+  /**
+   * 是否为当前拖拽的指针，不带 pointerId 的事件（如脚本派发的 MouseEvent）视为当前指针
+   * @param e 指针事件
+   */
+  private _isActivePointer(e: PointerEvent) {
+    return e.pointerId === undefined || e.pointerId === this._pointerId;
+  }
+
+  /**
+   * 按下的元素是否匹配 `ignore`（只检查容器内的元素）
+   * @param target 事件目标
+   */
+  private _isIgnored(target: EventTarget | null) {
+    const { ignore } = this.options;
+    if (!ignore || !(target instanceof Element)) return false;
+    const $ignored = target.closest(ignore);
+    return !!$ignored && this.$container.contains($ignored);
+  }
+
+  /**
+   * 指针沿滚动方向的移动距离是否超过拖拽阈值
+   * @param clientX 鼠标或触摸的 X 坐标
+   * @param clientY 鼠标或触摸的 Y 坐标
+   */
+  private _exceedsThreshold(clientX: number, clientY: number) {
+    const { axis, dragThreshold } = this.options;
+    const deltaX = axis === 'y' ? 0 : clientX - this._startX;
+    const deltaY = axis === 'x' ? 0 : clientY - this._startY;
+    return Math.hypot(deltaX, deltaY) > dragThreshold;
+  }
+
+  /**
+   * 拖拽释放后阻止 click，避免误触发内容中的链接和按钮
+   * @param e 点击事件
+   */
+  private _onClick(e: MouseEvent) {
+    if (!this._suppressClick) return;
+    this._suppressClick = false;
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  /**
+   * 鼠标滚轮 / 触控板滚动
+   * @param e 滚轮事件
+   */
+  private _onWheel(e: WheelEvent) {
+    // 已由内层实例处理的滚轮事件不再处理
+    if (e.defaultPrevented || !this.canDrag || this.isDragging) return;
+    const { axis } = this.options;
+    let { x: deltaX, y: deltaY } = this._normalizeWheelDelta(e);
+    if (axis === 'x' && !deltaX && !this._hasVerticalScrollParent()) {
+      // 仅水平滚动且外层没有可垂直滚动的实例或页面时，将垂直滚轮映射为水平滚动
+      deltaX = deltaY;
+    }
+    if (axis === 'x') deltaY = 0;
+    if (axis === 'y') deltaX = 0;
+
+    // 鼠标滚轮分段滚动时平滑过渡，触控板像素级滚动时直接跟随
+    // 该方向已滚动到尽头时不阻止默认行为，交由外层实例或页面继续滚动（`overscrollBehavior` 为 `contain` 时除外）
+    if (this._scrollBy(deltaX, deltaY, this._isDiscreteWheel(e), 'wheel')) {
+      e.preventDefault();
+      if (this.options.pager || this.options.snap) this._snapLater();
+    } else if (this.options.overscrollBehavior === 'contain') {
+      e.preventDefault();
+    }
+  }
+
+  /**
+   * 外层是否有支持垂直滚动的实例、可滚动元素或可滚动的页面
+   */
+  private _hasVerticalScrollParent() {
+    for (let $parent = this.$container.parentElement; $parent; $parent = $parent.parentElement) {
+      const instance = _$DRAG_SCROLL_INSTANCES$_.get($parent);
+      if (instance) {
+        if (instance.canDrag && instance.options.axis !== 'x') return true;
+        continue;
+      }
+      const { overflowY } = window.getComputedStyle($parent);
+      if ((overflowY === 'auto' || overflowY === 'scroll') && $parent.scrollHeight > $parent.clientHeight) return true;
+    }
+    const $root = document.scrollingElement || document.documentElement;
+    return $root.scrollHeight > $root.clientHeight;
+  }
+
+  /**
+   * 将滚轮位移统一换算为像素
+   * @param e 滚轮事件
+   */
+  private _normalizeWheelDelta(e: WheelEvent) {
+    let { deltaX, deltaY } = e;
+    if (e.deltaMode === 1) {
+      // DOM_DELTA_LINE
+      deltaX *= _$DRAG_SCROLL_LINE_HEIGHT$_;
+      deltaY *= _$DRAG_SCROLL_LINE_HEIGHT$_;
+    } else if (e.deltaMode === 2) {
+      // DOM_DELTA_PAGE
+      deltaX *= this.$container.clientWidth;
+      deltaY *= this.$container.clientHeight;
+    }
+    if (e.shiftKey && !deltaX) {
+      // Shift + 滚轮为水平滚动
+      deltaX = deltaY;
+      deltaY = 0;
+    }
+    return { x: deltaX, y: deltaY };
+  }
+
+  /**
+   * 是否为鼠标滚轮的分段滚动（触控板为连续的小幅像素位移）
+   * @param e 滚轮事件
+   */
+  private _isDiscreteWheel(e: WheelEvent) {
+    if (e.deltaMode !== 0) return true;
+    return !e.deltaX && Number.isInteger(e.deltaY) && Math.abs(e.deltaY) >= 50;
+  }
+
+  /**
+   * 键盘导航
+   * @param e 键盘事件
+   */
+  private _onKeyDown(e: KeyboardEvent) {
+    if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+    if (!this.canDrag || this.isDragging || this._isEditable(e.target)) return;
+
+    const { axis } = this.options;
+    const horizontal = axis === 'x';
+    const page = (horizontal ? this.$container.clientWidth : this.$container.clientHeight) * _$DRAG_SCROLL_PAGE_RATIO$_;
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    const fromX = this._tween ? this._tween.toX : this.currentX;
+    const fromY = this._tween ? this._tween.toY : this.currentY;
+    // 主轴方向的位移
+    let delta = 0;
+    let deltaX = 0;
+    let deltaY = 0;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        deltaY = -_$DRAG_SCROLL_LINE_HEIGHT$_;
+        break;
+      case 'ArrowDown':
+        deltaY = _$DRAG_SCROLL_LINE_HEIGHT$_;
+        break;
+      case 'ArrowLeft':
+        deltaX = -_$DRAG_SCROLL_LINE_HEIGHT$_;
+        break;
+      case 'ArrowRight':
+        deltaX = _$DRAG_SCROLL_LINE_HEIGHT$_;
+        break;
+      case 'PageUp':
+        delta = -page;
+        break;
+      case 'PageDown':
+        delta = page;
+        break;
+      case ' ':
+        // 按钮等可交互元素上的空格用于触发元素
+        if (this._isInteractive(e.target)) return;
+        delta = e.shiftKey ? -page : page;
+        break;
+      case 'Home':
+        delta = -(horizontal ? fromX : fromY);
+        break;
+      case 'End':
+        delta = horizontal ? maxScrollX - fromX : maxScrollY - fromY;
+        break;
+      default:
+        return;
+    }
+    if (horizontal) deltaX += delta;
+    else deltaY += delta;
+    if (axis === 'x') deltaY = 0;
+    if (axis === 'y') deltaX = 0;
+
+    // 分页和吸附模式按页或吸附点移动，Home/End 移动到第一个和最后一个
+    const moved =
+      this.options.pager || this.options.snap
+        ? this._stepSnap(e.key === 'Home' ? -Infinity : e.key === 'End' ? Infinity : Math.sign(horizontal ? deltaX : deltaY))
+        : this._scrollBy(deltaX, deltaY, true);
+    if (moved || this.options.overscrollBehavior === 'contain') {
+      e.preventDefault();
+    }
+  }
+
+  /**
+   * 内容中的元素获得焦点时，将其滚动到可见区域
+   * @param e 焦点事件
+   */
+  private _onFocusIn(e: FocusEvent) {
+    const target = e.target as HTMLElement;
+    if (this.isDragging || target === this.$content || !this.$content.contains(target)) return;
+    // 浏览器会为聚焦元素滚动 overflow: hidden 的容器，这里复原后统一由 transform 控制
+    this.$container.scrollTop = 0;
+    this.$container.scrollLeft = 0;
+    this.scrollToElement(target, { align: 'nearest' }).catch(() => {});
+  }
+
+  /**
+   * 是否为可编辑元素（输入框、下拉框、contenteditable 等），键盘事件交由元素自身处理
+   * @param target 事件目标
+   */
+  private _isEditable(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+  }
+
+  /**
+   * 是否为内容中的可交互元素（按钮、链接等）或其子元素
+   * @param target 事件目标
+   */
+  private _isInteractive(target: EventTarget | null) {
+    if (!(target instanceof Element) || target === this.$container) return false;
+    const $interactive = target.closest(_$DRAG_SCROLL_INTERACTIVE$_);
+    return !!$interactive && this.$content.contains($interactive);
+  }
+
+  /**
+   * 按位移滚动，在正在进行的滚动动画目标上累加，保证连续滚动不丢失距离
+   * @param deltaX X轴位移
+   * @param deltaY Y轴位移
+   * @param animate 是否平滑过渡
+   * @param phase 滚动阶段
+   * @returns 该方向是否仍可滚动（已滚动到尽头时返回 false）
+   */
+  private _scrollBy(deltaX: number, deltaY: number, animate: boolean, phase: DragScrollPhase = 'programmatic') {
+    const fromX = this._tween ? this._tween.toX : this.currentX;
+    const fromY = this._tween ? this._tween.toY : this.currentY;
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    const canScrollX = (deltaX < 0 && fromX > 0) || (deltaX > 0 && fromX < maxScrollX);
+    const canScrollY = (deltaY < 0 && fromY > 0) || (deltaY > 0 && fromY < maxScrollY);
+    if (!canScrollX && !canScrollY) return false;
+
+    if (animate) {
+      this.scrollTo({ x: fromX + deltaX, y: fromY + deltaY, duration: _$DRAG_SCROLL_STEP_DURATION$_ }).catch(() => {});
+      if (this._tween) this._phase = phase;
+    } else {
+      this._scrollTo(fromX + deltaX, fromY + deltaY, true, phase);
+      this._toggleScrollbar(true);
+      this._hideScrollbarLater();
+    }
+    return true;
+  }
+
+  /**
+   * 触摸移动
+   * @param e 触摸移动事件
+   */
+  private _onTouchMove(e: TouchEvent) {
+    // 只阻止由当前实例拖拽的触摸移动，其他方向交由外层实例或页面滚动
+    if (!this.isDragging || !e.cancelable) return;
+    const touch = e.touches[0];
+    if (this._dragged || !touch || this._acceptsDirection(touch.clientX - this._startX, touch.clientY - this._startY)) {
+      e.preventDefault();
+    }
+  }
+
+  /**
+   * 开始拖拽
+   * @param clientX 鼠标或触摸的 X 坐标
+   * @param clientY 鼠标或触摸的 Y 坐标
+   */
+  private _startDrag(clientX: number, clientY: number) {
+    if (!this.canDrag) return;
+    // 停止正在进行的惯性滚动
+    this._stopAnimation();
+    this.isDragging = true;
+    this._dragged = false;
+    this._phase = 'drag';
+    // 拖拽时暂停自动播放
+    this._scheduleAutoplay();
+    this._startX = clientX;
+    this._startY = clientY;
+    this.velocityX = 0;
+    this.velocity = 0;
+    this._samples = [];
+    this._recordSample();
+    this._toggleScrollbar(true);
+    // 更新光标样式
+    this.$container.style.cursor = 'grabbing';
+  }
+
+  /**
+   * 鼠标移动
+   * @param e 鼠标事件
+   */
+  private _onMouseMove(e: PointerEvent) {
+    // e.preventDefault();
+    if (!this.canDrag) return;
+    if (!this.isDragging || !this._isActivePointer(e)) return;
+    if (!this._dragged) {
+      const gesture = this._gesture!;
+      if (!gesture.owner) {
+        // 未超过拖拽阈值时内容不跟随，超过后从按下位置开始计算位移
+        if (!this._exceedsThreshold(e.clientX, e.clientY)) return;
+        gesture.owner = this._findGestureOwner(e.clientX - this._startX, e.clientY - this._startY);
+        gesture.instances.forEach(instance => {
+          if (instance !== gesture.owner && instance.isDragging) instance._cancelDrag();
+        });
+      }
+      if (gesture.owner !== this) return;
+      this._acceptDrag(e);
+    } else if (this._handOff(e)) {
+      return;
+    }
+    this._drag(e.clientX, e.clientY);
+    const state = this.getState();
+    this.options.onDragging?.(this.currentX, this.currentY, state);
+    this._emit('drag', state);
+  }
+
+  /**
+   * 拖动
+   * @param clientX 鼠标或触摸的 X 坐标
+   * @param clientY 鼠标或触摸的 Y 坐标
+   */
+  private _drag(clientX: number, clientY: number) {
+    if (!this.canDrag) return;
+    const { axis } = this.options;
+    const deltaX = axis === 'y' ? 0 : this._startX - clientX;
+    // 下拉刷新优先消耗顶部向下的拖拽
+    const deltaY = this._pull(axis === 'x' ? 0 : this._startY - clientY);
+    this._startX = clientX;
+    this._startY = clientY;
+
+    // 更新位置
+    const bounce = this.options.overscroll === 'bounce';
+    if (bounce) {
+      const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+      this.currentX = this._rubberBand(this.currentX, deltaX, maxScrollX, this.$container.clientWidth);
+      this.currentY = this._rubberBand(this.currentY, deltaY, maxScrollY, this.$container.clientHeight);
+    } else {
+      this.currentX += deltaX;
+      this.currentY += deltaY;
+    }
+
+    this._applyTransform(bounce);
+
+    // 根据最近的采样点计算速度（用于惯性滚动）
+    this._recordSample();
+    const { x: velocityX, y: velocityY } = this._estimateVelocity();
+    this.velocityX = velocityX;
+    this.velocity = velocityY;
+
+    this._updateState();
+  }
+
+  /**
+   * 橡皮筋阻尼：越界部分的位移按阻尼系数和已越界比例递减
+   * @param position 当前平移位置
+   * @param delta 位移
+   * @param maxScroll 最大滚动距离
+   * @param size 容器在该方向的尺寸
+   * @returns 施加阻尼后的平移位置
+   */
+  private _rubberBand(position: number, delta: number, maxScroll: number, size: number) {
+    const next = position + delta;
+    if (next >= 0 && next <= maxScroll) return next;
+
+    const edge = next < 0 ? 0 : maxScroll;
+    // 边界内的部分正常移动，从边界（或当前越界位置）开始施加阻力
+    const from = position < 0 || position > maxScroll ? position : edge;
+    const resistance = size > 0 ? this._bounceDamping * Math.max(1 - Math.abs(from - edge) / size, 0) : 0;
+    return from + (next - from) * resistance;
+  }
+
+  /**
+   * 获取当前越界距离（起始方向越界为负值，结束方向越界为正值）
+   */
+  private _getOverscroll() {
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    const overscroll = (position: number, maxScroll: number) => (position < 0 ? position : position > maxScroll ? position - maxScroll : 0);
+    return {
+      x: overscroll(this.currentX, maxScrollX),
+      y: overscroll(this.currentY, maxScrollY),
+    };
+  }
+
+  /**
+   * 记录当前平移位置采样点，并丢弃时间窗口之外的采样点
+   */
+  private _recordSample() {
+    const time = performance.now();
+    this._samples.push({ x: this.currentX, y: this.currentY, time });
+    while (this._samples.length > 2 && time - this._samples[0].time > _$DRAG_SCROLL_VELOCITY_SAMPLE_WINDOW$_) {
+      this._samples.shift();
+    }
+  }
+
+  /**
+   * 根据时间窗口内的采样点估算速度（px/帧），并限制最大速度
+   */
+  private _estimateVelocity() {
+    const now = performance.now();
+    const samples = this._samples.filter(sample => now - sample.time <= _$DRAG_SCROLL_VELOCITY_SAMPLE_WINDOW$_);
+    if (samples.length < 2) return { x: 0, y: 0 };
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const frames = (last.time - first.time) / _$DRAG_SCROLL_FRAME_DURATION$_;
+    if (frames <= 0) return { x: 0, y: 0 };
+
+    const limit = (velocity: number) => Math.max(Math.min(velocity, this._maxVelocity), -this._maxVelocity);
+    return {
+      x: limit((last.x - first.x) / frames),
+      y: limit((last.y - first.y) / frames),
+    };
+  }
+
+  /**
+   * 鼠标释放
+   */
+  private _onMouseUp(e: PointerEvent) {
+    if (!this.isDragging || !this._isActivePointer(e)) return;
+    this._pointerId = null;
+    this._gesture = null;
+    this._removeDragListeners();
+    this.isDragging = false; // 停止拖动, 放置在最后
+    if (this.canDrag) {
+      // 拖拽后阻止释放时触发的 click，click 在 pointerup 之后同步派发，未触发（如在容器外释放）时下一轮事件循环中取消
+      if (this._dragged) {
+        this._suppressClick = true;
+        setTimeout(() => (this._suppressClick = false));
+      }
+      this._endDrag();
+    }
+    // 未超过拖拽阈值（点击）时拖拽未开始，不触发拖拽结束
+    if (!this._dragged) return;
+    this.options.onDragEnd?.(e);
+    this._emit('dragend', e);
+  }
+
+  /**
+   * 结束拖动
+   */
+  private _endDrag() {
+    // 恢复光标样式
+    this.$container.style.cursor = 'grab';
+    this._phase = 'idle';
+    if (this._pullDistance) this._releasePull();
+    // 按释放速度开始惯性滚动
+    const { x: velocityX, y: velocityY } = this._estimateVelocity();
+    this.velocityX = velocityX;
+    this.velocity = velocityY;
+    this._samples = [];
+    this._scheduleAutoplay();
+    // 分页和吸附（主轴越界时先由回弹动画回到边界）
+    if ((this.options.pager || this.options.snap) && !this._getOverscroll()[this._getMainAxis()]) {
+      const velocity = this._getMainAxis() === 'x' ? velocityX : velocityY;
+      if (this.options.pager && !this._dragged) {
+        // 点击（未超过拖拽阈值）时继续切换到被中断的目标页
+        this._goToSlot(this._getPageSlot(this._page)).catch(() => {});
+      } else if (this.options.pager) {
+        this._releasePage(velocity);
+      } else {
+        this._snap(velocity);
+      }
+      return;
+    }
+    if (this._reducedMotion) {
+      // 减少动画：不进行惯性滚动，越界时直接回到边界
+      this.velocityX = 0;
+      this.velocity = 0;
+      this._applyTransform();
+      this._updateState();
+      this._hideScrollbarLater();
+      return;
+    }
+    const { x: overscrollX, y: overscrollY } = this._getOverscroll();
+    if (
+      overscrollX ||
+      overscrollY ||
+      Math.abs(velocityX) >= _$DRAG_SCROLL_MIN_VELOCITY$_ ||
+      Math.abs(velocityY) >= _$DRAG_SCROLL_MIN_VELOCITY$_
+    ) {
+      this._startAnimation();
+    } else {
+      this.velocityX = 0;
+      this.velocity = 0;
+      this._hideScrollbarLater();
+    }
+  }
+
+  /**
+   * 下拉刷新：在顶部继续向下拖拽时增加下拉距离，向上拖拽时先收起下拉距离
+   * @param deltaY Y轴拖拽位移
+   * @returns 未被下拉消耗的 Y轴位移
+   */
+  private _pull(deltaY: number) {
+    if (!this.$refresh || !deltaY || this.currentY > 0) return deltaY;
+    if (this._refreshState === 'refreshing' || this._refreshState === 'done') return deltaY;
+    if (deltaY > 0 && !this._pullDistance) return deltaY;
+
+    const { threshold, max } = this._getPullToRefreshOptions();
+    if (this._pullAnimationId) {
+      cancelAnimationFrame(this._pullAnimationId);
+      this._pullAnimationId = null;
+    }
+    const pull = this._pullDistance - deltaY * _$DRAG_SCROLL_PULL_RESISTANCE$_;
+    this._pullDistance = Math.min(Math.max(pull, 0), max);
+    this._setRefreshState(this._pullDistance >= threshold ? 'ready' : this._pullDistance > 0 ? 'pulling' : 'idle');
+    // 收起后剩余的向上位移继续滚动内容
+    return pull < 0 ? -pull / _$DRAG_SCROLL_PULL_RESISTANCE$_ : 0;
+  }
+
+  /**
+   * 释放下拉：达到触发距离时开始刷新，否则收起指示器
+   */
+  private _releasePull() {
+    if (this._refreshState !== 'ready') {
+      this._animatePull(0);
+      return;
+    }
+
+    const { threshold, onRefresh } = this._getPullToRefreshOptions();
+    this._setRefreshState('refreshing');
+    this._animatePull(threshold);
+    new Promise(resolve => resolve(onRefresh()))
+      .catch(() => undefined)
+      .then(() => {
+        // 已销毁
+        if (!this.$refresh) return;
+        this._setRefreshState('done');
+        this._animatePull(0);
+      });
+  }
+
+  /**
+   * 下拉距离弹性动画到目标值，收起完成后回到 `idle` 状态
+   * @param target 目标下拉距离
+   */
+  private _animatePull(target: number) {
+    if (this._pullAnimationId) cancelAnimationFrame(this._pullAnimationId);
+    const step = () => {
+      this._pullAnimationId = null;
+      const distance = target - this._pullDistance;
+      const done = this._reducedMotion || Math.abs(distance) < 0.5;
+      this._pullDistance = done ? target : this._pullDistance + distance * this._spring;
+      this._applyTransform(this._isOverscrollActive());
+      if (!done) {
+        this._pullAnimationId = requestAnimationFrame(step);
+      } else if (!target && this._refreshState !== 'refreshing') {
+        this._setRefreshState('idle');
+      }
+    };
+    this._pullAnimationId = requestAnimationFrame(step);
+  }
+
+  /**
+   * 更新下拉刷新状态和指示器类名
+   * @param state 下拉刷新状态
+   */
+  private _setRefreshState(state: DragScrollRefreshState) {
+    if (state === this._refreshState) return;
+    this.$refresh?.classList.replace(
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-refresh-${this._refreshState}`,
+      `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-refresh-${state}`,
+    );
+    this._refreshState = state;
+    this.options.pullToRefresh?.onStateChange?.(state);
+  }
+
+  /**
+   * 获取下拉刷新参数（填充默认值）
+   */
+  private _getPullToRefreshOptions() {
+    const { threshold = _$DRAG_SCROLL_PULL_THRESHOLD$_, max = _$DRAG_SCROLL_PULL_MAX$_, onRefresh } = this.options.pullToRefresh;
+    return { threshold, max: Math.max(max, threshold), onRefresh };
+  }
+
+  /**
+   * 检查是否滚动到开头或末尾的阈值范围内，进入范围时触发一次 `onReachStart` 或 `onReachEnd`
+   */
+  private _checkReach() {
+    const { onReachStart, onReachEnd, reachThreshold, hasMore } = this.options;
+    const axis = this._getMainAxis();
+    const position = axis === 'x' ? this.currentX : this.currentY;
+    const nearStart = position <= reachThreshold;
+    const nearEnd = this._getMaxScroll()[axis] - position <= reachThreshold;
+    // 进入阈值范围时派发事件
+    const reachStart = nearStart && !this._nearStart;
+    const reachEnd = nearEnd && !this._nearEnd;
+    this._nearStart = nearStart;
+    this._nearEnd = nearEnd;
+    if (reachStart) this._emit('reachstart', this.getState());
+    if (reachEnd) this._emit('reachend', this.getState());
+
+    if (!onReachStart && !onReachEnd) return;
+    if (!nearStart) this._reachedStart = false;
+    if (!nearEnd) this._reachedEnd = false;
+    if (this._loading) return;
+
+    if (nearEnd && !this._reachedEnd && hasMore && onReachEnd) {
+      this._reachedEnd = true;
+      this._load(onReachEnd, () => (this._reachedEnd = false));
+    } else if (nearStart && !this._reachedStart && onReachStart) {
+      this._reachedStart = true;
+      this._load(onReachStart, () => (this._reachedStart = false));
+    }
+  }
+
+  /**
+   * 执行加载回调，返回 Promise 时进入加载状态，完成后重新检查（内容仍不足时继续加载）
+   * @param callback 加载回调
+   * @param reset 加载完成后重置触发标记
+   */
+  private _load(callback: () => PromiseLike<unknown> | unknown, reset: () => void) {
+    const result = callback();
+    // thenable 和其他 realm（如 iframe）中的 Promise 同样进入加载状态
+    if (typeof (result as PromiseLike<unknown>)?.then !== 'function') return;
+    this._loading = true;
+    this._updateFooter();
+    Promise.resolve(result)
+      .catch(() => undefined)
+      .then(() => {
+        // 已销毁
+        if (!this.$content) return;
+        this._loading = false;
+        this._updateFooter();
+        reset();
+        this._checkReach();
+      });
+  }
+
+  /**
+   * 更新加载区域类名
+   */
+  private _updateFooter() {
+    this.$footer?.classList.toggle(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-footer-loading`, this._loading);
+    this.$footer?.classList.toggle(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-footer-no-more`, !this.options.hasMore);
+    // 加载状态变化可能改变加载区域尺寸
+    if (this.options.virtual) this._updateVirtualFooter();
+  }
+
+  /**
+   * 获取吸附点（已限制在滚动范围内），未设置 `snap` 时按容器尺寸分页
+   */
+  private _getSnapPoints() {
+    const { snap = 'page', snapAlign } = this.options;
+    const axis = this._getMainAxis();
+    const viewport = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const maxScroll = this._getMaxScroll()[axis];
+    // 吸附目标在内容中的起始位置和尺寸
+    const targets: [number, number][] = [];
+    if (typeof snap === 'string' && snap !== 'page') {
+      const contentRect = this.$content.getBoundingClientRect();
+      this.$content.querySelectorAll<HTMLElement>(snap).forEach($el => {
+        const rect = $el.getBoundingClientRect();
+        targets.push(axis === 'x' ? [rect.left - contentRect.left, rect.width] : [rect.top - contentRect.top, rect.height]);
+      });
+    } else {
+      const size = typeof snap === 'number' ? snap : viewport;
+      if (size > 0) {
+        for (let start = 0; start < maxScroll + viewport; start += size) targets.push([start, size]);
+      }
+    }
+    const points = targets.map(([start, size]) => Math.min(Math.max(this._getAlignedPosition(start, size, axis, snapAlign), 0), maxScroll));
+    // 按间隔或分页吸附时，合并限制在边界后重复的吸附点；按元素吸附时索引与元素一一对应
+    return typeof snap === 'string' && snap !== 'page' ? points : points.filter((point, index) => !index || point !== points[index - 1]);
+  }
+
+  /**
+   * 查找距离指定位置最近的吸附点索引
+   * @param points 吸附点
+   * @param position 主轴位置
+   */
+  private _findNearestSnap(points: number[], position: number) {
+    let nearest = 0;
+    points.forEach((point, index) => {
+      if (Math.abs(point - position) < Math.abs(points[nearest] - position)) nearest = index;
+    });
+    return nearest;
+  }
+
+  /**
+   * 按释放速度吸附：以惯性滚动的预计停止位置选取最近的吸附点
+   * @param velocity 主轴释放速度
+   */
+  private _snap(velocity = 0) {
+    const points = this._getSnapPoints();
+    if (!points.length) return;
+    const axis = this._getMainAxis();
+    const position = this._tween ? this._tween[axis === 'x' ? 'toX' : 'toY'] : axis === 'x' ? this.currentX : this.currentY;
+    // 速度按摩擦力逐帧衰减，总位移为等比数列之和
+    const projected = position + (velocity * this._friction) / (1 - this._friction);
+    this._snapTo(this._findNearestSnap(points, projected), points).catch(() => {});
+  }
+
+  /**
+   * 滚轮滚动停止后吸附
+   */
+  private _snapLater() {
+    if (this._snapTimeout) clearTimeout(this._snapTimeout);
+    this._snapTimeout = window.setTimeout(() => {
+      this._snapTimeout = null;
+      if (this.isDragging) return;
+      if (this.options.pager) {
+        this._releasePage(0);
+      } else {
+        this._snap();
+      }
+    }, _$DRAG_SCROLL_SNAP_WHEEL_DELAY$_);
+  }
+
+  /**
+   * 从当前（或正在滚动到的）吸附点移动指定数量的吸附点
+   * @param step 移动数量
+   */
+  private _snapBy(step: number) {
+    const points = this._getSnapPoints();
+    const axis = this._getMainAxis();
+    const position = this._tween ? this._tween[axis === 'x' ? 'toX' : 'toY'] : axis === 'x' ? this.currentX : this.currentY;
+    return this._snapTo(this._findNearestSnap(points, position) + step, points);
+  }
+
+  /**
+   * 滚动到指定吸附点，完成后吸附目标改变时触发 `onSnap`
+   * @param index 吸附点索引，超出范围时限制在范围内
+   * @param points 吸附点
+   */
+  private _snapTo(index: number, points = this._getSnapPoints()) {
+    if (!points.length) return Promise.resolve();
+    const target = Math.min(Math.max(index, 0), points.length - 1);
+    const axis = this._getMainAxis();
+    return this.scrollTo(axis === 'x' ? { x: points[target] } : { y: points[target] }).then(() => {
+      if (target === this._snapIndex) return;
+      this._snapIndex = target;
+      this.options.onSnap?.(target);
+    });
+  }
+
+  /**
+   * 键盘和点击滚动条滑轨时按页（分页模式）或吸附点移动
+   * @param step 移动数量，`-Infinity`/`Infinity` 为移动到第一个/最后一个，为 0 时不移动
+   * @returns 是否移动
+   */
+  private _stepSnap(step: number) {
+    if (!step) return false;
+    if (!this.options.pager) {
+      const points = this._getSnapPoints();
+      if (!points.length) return false;
+      const axis = this._getMainAxis();
+      const position = this._tween ? this._tween[axis === 'x' ? 'toX' : 'toY'] : axis === 'x' ? this.currentX : this.currentY;
+      const index = this._findNearestSnap(points, position);
+      const target = Math.min(Math.max(index + step, 0), points.length - 1);
+      // 已在首尾吸附点上
+      if (target === index && points[target] === position) return false;
+      this._snapTo(target, points).catch(() => {});
+      return true;
+    }
+    const count = this._pages.length;
+    const slot = this._getPageSlot(this._page);
+    let target = slot + step;
+    if (step === -Infinity) target = this._getPageSlot(0);
+    if (step === Infinity) target = this._getPageSlot(count - 1);
+    // 不循环时首尾页之外没有可切换的页
+    if (target === slot || (!this._getPagerOptions().loop && (target < 0 || target >= count))) return false;
+    this._goToSlot(target).catch(() => {});
+    return true;
+  }
+
+  /**
+   * 获取分页参数（填充默认值）
+   */
+  private _getPagerOptions(): DragScrollPagerOptions & typeof _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_ {
+    const { pager } = this.options;
+    const options = typeof pager === 'object' ? pager : {};
+    return {
+      ...options,
+      threshold: options.threshold ?? _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_.threshold,
+      velocityThreshold: options.velocityThreshold ?? _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_.velocityThreshold,
+      // 只有一页时不循环
+      loop: (options.loop ?? _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_.loop) && this._pages.length > 1,
+      autoplay: options.autoplay ?? _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_.autoplay,
+      dots: options.dots ?? _$DRAG_SCROLL_PAGER_DEFAULT_OPTIONS$_.dots,
+    };
+  }
+
+  /**
+   * 更新页面：页面元素变化时重新生成循环克隆页和分页指示点
+   */
+  private _updatePages() {
+    const clone = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-page-clone`;
+    const $pages = Array.from(this.$content.children).filter(
+      ($el): $el is HTMLElement => $el instanceof HTMLElement && !$el.classList.contains(clone) && $el !== this.$footer,
+    );
+    // 页面未变化（如克隆页插入触发的 observe 刷新）
+    if ($pages.length === this._pages.length && $pages.every(($page, index) => $page === this._pages[index])) return;
+
+    this._pages = $pages;
+    this.$content.querySelectorAll(`:scope > .${clone}`).forEach($clone => $clone.remove());
+    $pages.forEach($page => $page.classList.add(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-page`));
+    const { loop, dots } = this._getPagerOptions();
+    if (loop) {
+      // 首尾各插入一个克隆页，滑过首尾时无缝衔接
+      const createClone = ($page: HTMLElement) => {
+        const $clone = $page.cloneNode(true) as HTMLElement;
+        $clone.classList.add(clone);
+        $clone.setAttribute('aria-hidden', 'true');
+        $clone.removeAttribute('id');
+        $clone.querySelectorAll('[id]').forEach($el => $el.removeAttribute('id'));
+        return $clone;
+      };
+      this.$content.insertBefore(createClone($pages[$pages.length - 1]), $pages[0]);
+      $pages[$pages.length - 1].after(createClone($pages[0]));
+    }
+
+    this._$dots?.remove();
+    this._$dots = null;
+    if (dots && $pages.length) {
+      this._$dots = document.createElement('div');
+      this._$dots.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-dots`;
+      // 点击指示点不触发拖拽
+      this._$dots.addEventListener('pointerdown', e => e.stopPropagation());
+      $pages.forEach((_, index) => {
+        const $dot = document.createElement('button');
+        $dot.type = 'button';
+        $dot.className = `${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-dot`;
+        $dot.setAttribute('aria-label', `${index + 1} / ${$pages.length}`);
+        $dot.addEventListener('click', () => this.goTo(index).catch(() => {}));
+        this._$dots!.appendChild($dot);
+      });
+      this.$container.appendChild(this._$dots);
+    }
+    this._page = Math.min(this._page, Math.max($pages.length - 1, 0));
+    this._updateDots();
+  }
+
+  /**
+   * 更新分页指示点的选中状态
+   */
+  private _updateDots() {
+    this._$dots?.querySelectorAll(`.${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-dot`).forEach(($dot, index) => {
+      const active = index === this._page;
+      $dot.classList.toggle(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}-dot-active`, active);
+      if (active) {
+        $dot.setAttribute('aria-current', 'true');
+      } else {
+        $dot.removeAttribute('aria-current');
+      }
+    });
+  }
+
+  /**
+   * 页索引对应的位置序号（循环时首位为克隆页）
+   * @param index 页索引
+   */
+  private _getPageSlot(index: number) {
+    return this._getPagerOptions().loop ? index + 1 : index;
+  }
+
+  /**
+   * 循环分页时，当前位置在首尾克隆页范围内则平移到对应的真实页面位置（克隆页与真实页内容相同，平移无视觉变化）
+   */
+  private _wrapLoopPage() {
+    if (!this.options.pager || !this._getPagerOptions().loop || !this._pages.length) return;
+    const axis = this._getMainAxis();
+    const position = axis === 'x' ? this.currentX : this.currentY;
+    const first = this._getPagePosition(1);
+    const last = this._getPagePosition(this._pages.length);
+    const period = this._getPagePosition(this._pages.length + 1) - first;
+    let delta = 0;
+    if (position < first) {
+      delta = period;
+    } else if (position > last) {
+      delta = -period;
+    }
+    if (!delta) return;
+
+    if (axis === 'x') {
+      this.currentX += delta;
+      this._lastPosition.x += delta;
+    } else {
+      this.currentY += delta;
+      this._lastPosition.y += delta;
+    }
+    this._applyTransform();
+  }
+
+  /**
+   * 位置序号对应的平移位置
+   * @param slot 位置序号
+   */
+  private _getPagePosition(slot: number) {
+    const axis = this._getMainAxis();
+    const viewport = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    return Math.min(Math.max(slot * viewport, 0), this._getMaxScroll()[axis]);
+  }
+
+  /**
+   * 释放时切换页面：释放速度或拖拽距离超过阈值时切换到相邻页，否则回到当前页
+   * @param velocity 主轴释放速度
+   */
+  private _releasePage(velocity: number) {
+    const { threshold, velocityThreshold } = this._getPagerOptions();
+    const axis = this._getMainAxis();
+    const viewport = axis === 'x' ? this.$container.clientWidth : this.$container.clientHeight;
+    const slot = this._getPageSlot(this._page);
+    const position = this._tween ? this._tween[axis === 'x' ? 'toX' : 'toY'] : axis === 'x' ? this.currentX : this.currentY;
+    const distance = position - this._getPagePosition(slot);
+    let step = 0;
+    if (Math.abs(velocity) >= velocityThreshold) {
+      step = Math.sign(velocity);
+    } else if (Math.abs(distance) >= viewport * threshold) {
+      step = Math.sign(distance);
+    }
+    this._goToSlot(slot + step).catch(() => {});
+  }
+
+  /**
+   * 滚动到指定位置序号的页面，循环时到达克隆页后无动画跳转到对应的页面
+   * @param slot 位置序号，超出范围时限制在范围内
+   * @param animate 是否使用动画
+   */
+  private _goToSlot(slot: number, animate = true): Promise<void> {
+    const count = this._pages.length;
+    if (!count) return Promise.resolve();
+    const { loop } = this._getPagerOptions();
+    const target = Math.min(Math.max(slot, 0), loop ? count + 1 : count - 1);
+    const index = loop ? (target - 1 + count) % count : target;
+    if (index !== this._page) {
+      this._page = index;
+      this._updateDots();
+      this._getPagerOptions().onPageChange?.(index);
+    }
+    this._scheduleAutoplay();
+
+    const axis = this._getMainAxis();
+    const position = this._getPagePosition(target);
+    return this.scrollTo({ [axis]: position, duration: animate ? undefined : 0 }).then(() => {
+      if (target === this._getPageSlot(index)) return;
+      const realPosition = this._getPagePosition(this._getPageSlot(index));
+      this._scrollTo(axis === 'x' ? realPosition : this.currentX, axis === 'y' ? realPosition : this.currentY, true);
+    });
+  }
+
+  /**
+   * 重新开始自动播放计时，拖拽、鼠标悬停或偏好减少动画时暂停
+   */
+  private _scheduleAutoplay() {
+    if (this._autoplayTimeout) {
+      clearTimeout(this._autoplayTimeout);
+      this._autoplayTimeout = null;
+    }
+    if (!this.options.pager) return;
+    const { autoplay, loop } = this._getPagerOptions();
+    if (!autoplay || this._pages.length < 2 || this.isDragging || this._containerHovered || this._reducedMotion) return;
+    this._autoplayTimeout = window.setTimeout(() => {
+      this._autoplayTimeout = null;
+      // 不循环时最后一页回到第一页
+      const slot = loop || this._page < this._pages.length - 1 ? this._getPageSlot(this._page) + 1 : this._getPageSlot(0);
+      this._goToSlot(slot).catch(() => {});
+    }, autoplay);
+  }
+
+  /**
+   * 延迟隐藏滚动条
+   */
+  private _hideScrollbarLater() {
+    if (this._indicatorTimeout) clearTimeout(this._indicatorTimeout);
+    this._indicatorTimeout = window.setTimeout(() => {
+      this._indicatorTimeout = null;
+      if (!this.isDragging && !this._animationId) this._toggleScrollbar(false);
+    }, 1500);
+  }
+
+  /**
+   * 平移内容
+   * @param allowOverscroll 是否允许越界（`bounce` 模式拖拽和动画过程中）
+   */
+  private _applyTransform(allowOverscroll = false) {
+    // 内容尺寸小于等于容器尺寸时，最大滚动距离为 0，不进行滚动
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    // 边界检查（允许越界时由弹性动画负责回弹）
+    if (!allowOverscroll) {
+      if (this.currentX < 0) {
+        // 超出左侧边界
+        this.currentX = 0;
+        this.velocityX *= this._bounceDamping;
+      } else if (this.currentX > maxScrollX) {
+        // 超出右侧边界
+        this.currentX = maxScrollX;
+        this.velocityX *= this._bounceDamping;
+      }
+      if (this.currentY < 0) {
+        // 超出顶部边界
+        this.currentY = 0;
+        this.velocity *= this._bounceDamping;
+      } else if (this.currentY > maxScrollY) {
+        // 超出底部边界
+        this.currentY = maxScrollY;
+        this.velocity *= this._bounceDamping;
+      }
+    }
+    this._updateDirection();
+    this._renderVirtual();
+    this._renderSticky();
+    // 应用 transform
+    this.$content.style.transform = `translate3d(${-this.currentX}px, ${this._pullDistance - this.currentY}px, 0)`;
+    if (this.$refresh) this.$refresh.style.transform = `translate3d(0, ${this._pullDistance}px, 0)`;
+    this._updateScrollbar();
+  }
+
+  /**
+   * 开始惯性滚动动画
+   */
+  private _startAnimation() {
+    this._stopAnimation();
+    this._lastTimestamp = 0;
+    this._animationId = requestAnimationFrame(this._animate);
+    this._momentum = true;
+    this._phase = 'momentum';
+    this._emit('momentumstart', this.getState());
+  }
+
+  /**
+   * 停止惯性滚动和滚动动画，未完成的滚动动画将被 reject
+   */
+  private _stopAnimation() {
+    if (this._animationId) {
+      cancelAnimationFrame(this._animationId);
+      this._animationId = null!;
+      this._phase = 'idle';
+    }
+    if (this._tween) {
+      const { reject } = this._tween;
+      this._tween = null;
+      reject(new Error('scroll animation was cancelled'));
+      // 循环分页切换到克隆页的动画被中断时，移到对应的真实页面位置
+      this._wrapLoopPage();
+    }
+    this._endMomentum();
+  }
+
+  /**
+   * 结束惯性滚动状态
+   */
+  private _endMomentum() {
+    if (!this._momentum) return;
+    this._momentum = false;
+    this._emit('momentumend', this.getState());
+  }
+
+  /**
+   * 滚动动画
+   * @param timestamp 时间戳
+   */
+  private _animateTween(timestamp = performance.now()) {
+    this._animationId = null!;
+    const tween = this._tween;
+    if (!tween) return;
+
+    const progress = Math.min(Math.max((timestamp - tween.startTime) / tween.duration, 0), 1);
+    // 结束时精确停在目标位置
+    const eased = progress < 1 ? tween.easing(progress) : 1;
+    this.currentX = tween.fromX + (tween.toX - tween.fromX) * eased;
+    this.currentY = tween.fromY + (tween.toY - tween.fromY) * eased;
+    this._applyTransform();
+    this._updateState();
+
+    if (progress < 1) {
+      this._animationId = requestAnimationFrame(this._animateTween);
+      return;
+    }
+
+    this._tween = null;
+    this._phase = 'idle';
+    this._hideScrollbarLater();
+    tween.resolve();
+  }
+
+  /**
+   * 动画
+   * @param timestamp 时间戳
+   */
+  private _animate(timestamp = performance.now()) {
+    this._animationId = null!;
+
+    if (!this._lastTimestamp) this._lastTimestamp = timestamp;
+    // 按实际帧间隔换算为 60Hz 帧数，保证不同刷新率下表现一致
+    const deltaTime = Math.min(timestamp - this._lastTimestamp, 100) / _$DRAG_SCROLL_FRAME_DURATION$_; // 限制最大时间增量
+    this._lastTimestamp = timestamp;
+
+    // 惯性滚动与弹性回弹，按不超过一帧的步长积分，避免大时间增量下弹簧发散
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    for (let remaining = deltaTime; remaining > 0; remaining -= 1) {
+      const step = Math.min(remaining, 1);
+      [this.currentX, this.velocityX] = this._stepAxis(this.currentX, this.velocityX, maxScrollX, step);
+      [this.currentY, this.velocity] = this._stepAxis(this.currentY, this.velocity, maxScrollY, step);
+    }
+
+    const bounce = this.options.overscroll === 'bounce';
+    this._applyTransform(bounce);
+    this._updateState();
+
+    // 当速度足够小且未越界时停止动画
+    const { x: overscrollX, y: overscrollY } = this._getOverscroll();
+    if (
+      !overscrollX &&
+      !overscrollY &&
+      Math.abs(this.velocityX) < _$DRAG_SCROLL_MIN_VELOCITY$_ &&
+      Math.abs(this.velocity) < _$DRAG_SCROLL_MIN_VELOCITY$_
+    ) {
+      this.velocityX = 0;
+      this.velocity = 0;
+      this._phase = 'idle';
+      this._hideScrollbarLater();
+      this._endMomentum();
+      return;
+    }
+
+    this._animationId = requestAnimationFrame(this._animate);
+  }
+
+  /**
+   * 单轴物理步进
+   * @param position 当前平移位置
+   * @param velocity 当前速度
+   * @param maxScroll 最大滚动距离
+   * @param step 步长（帧）
+   * @returns [新的平移位置, 新的速度]
+   */
+  private _stepAxis(position: number, velocity: number, maxScroll: number, step: number): [number, number] {
+    const overscroll = position < 0 ? position : position > maxScroll ? position - maxScroll : 0;
+    if (!overscroll || this.options.overscroll !== 'bounce') {
+      // 惯性滚动
+      velocity *= Math.pow(this._friction, step);
+      return [position + velocity * step, velocity];
+    }
+
+    if (velocity * overscroll > 0) {
+      // 仍在向外运动：弹簧拉力与边界阻尼共同减速
+      velocity = (velocity - overscroll * this._spring * step) * Math.pow(this._bounceDamping, step);
+      return [position + velocity * step, velocity];
+    }
+
+    // 回弹：越界距离按弹性系数指数衰减，平滑回到边界
+    const edge = overscroll < 0 ? 0 : maxScroll;
+    const next = edge + overscroll * Math.pow(1 - this._spring, step);
+    if (Math.abs(next - edge) < 0.5) return [edge, 0];
+    return [next, (next - position) / step];
+  }
+
+  /**
+   * 更新滚动条
+   */
+  private _updateScrollbar() {
+    const { x: maxScrollX, y: maxScrollY } = this._getMaxScroll();
+    if (this._$scrollbar && this._$scrollbarThumb) {
+      this._updateScrollbarThumb(this._$scrollbar, this._$scrollbarThumb, 'y', this.$container.clientHeight, maxScrollY, this.currentY);
+    }
+    if (this._$scrollbarX && this._$scrollbarThumbX) {
+      this._updateScrollbarThumb(this._$scrollbarX, this._$scrollbarThumbX, 'x', this.$container.clientWidth, maxScrollX, this.currentX);
+    }
+  }
+
+  /**
+   * 更新单个滚动条指示器的尺寸和位置，并同步无障碍属性
+   * @param $scrollbar 滚动条元素
+   * @param $thumb 滚动条指示器元素
+   * @param axis 滚动条方向
+   * @param containerSize 容器在该方向的尺寸
+   * @param maxScroll 该方向最大滚动距离
+   * @param position 该方向当前平移位置
+   */
+  private _updateScrollbarThumb(
+    $scrollbar: HTMLElement,
+    $thumb: HTMLElement,
+    axis: 'x' | 'y',
+    containerSize: number,
+    maxScroll: number,
+    position: number,
+  ) {
+    const sizeProperty = axis === 'x' ? 'width' : 'height';
+    $scrollbar.setAttribute('aria-valuemax', `${Math.round(maxScroll)}`);
+    $scrollbar.setAttribute('aria-valuenow', `${Math.round(Math.min(Math.max(position, 0), maxScroll))}`);
+
+    if (maxScroll <= 0) {
+      $thumb.style[sizeProperty] = '0';
+      return;
+    }
+
+    // 计算滚动条尺寸和位置（越界时停留在两端）
+    const thumbSize = this._getThumbSize(containerSize, maxScroll);
+    const thumbPosition = (Math.min(Math.max(position, 0), maxScroll) / maxScroll) * (containerSize - thumbSize);
+
+    $thumb.style[sizeProperty] = `${thumbSize}px`;
+    $thumb.style.transform = axis === 'x' ? `translateX(${thumbPosition}px)` : `translateY(${thumbPosition}px)`;
+  }
+
+  /**
+   * 计算滚动条指示器尺寸
+   * @param containerSize 容器在该方向的尺寸
+   * @param maxScroll 该方向最大滚动距离
+   */
+  private _getThumbSize(containerSize: number, maxScroll: number) {
+    const contentSize = containerSize + maxScroll;
+    return Math.max((containerSize / contentSize) * containerSize, 20);
+  }
+
+  /**
+   * 更新统计信息
    */
   private _updateState() {
-    this.options.onChange?.({
-      x: 0,
-      y: this.currentY,
-      velocity: +this.velocity.toFixed(1),
+    const state = this.getState();
+    this.options.onChange?.(state);
+    this._emit('scroll', state);
+    this._checkReach();
+  }
+
+  /**
+   * 按位置变化更新滚动方向，位置未变化时保持上次的方向
+   */
+  private _updateDirection() {
+    const deltaX = this.currentX - this._lastPosition.x;
+    const deltaY = this.currentY - this._lastPosition.y;
+    if (!deltaX && !deltaY) return;
+    if (Math.abs(deltaX) > Math.abs(deltaY)) {
+      this._direction = deltaX > 0 ? 'right' : 'left';
+    } else {
+      this._direction = deltaY > 0 ? 'down' : 'up';
+    }
+    this._lastPosition = { x: this.currentX, y: this.currentY };
+  }
+
+  /**
+   * 计算滚动进度
+   * @param position 平移位置
+   * @param maxScroll 最大滚动距离
+   */
+  private _getProgress(position: number, maxScroll: number) {
+    return maxScroll > 0 ? Math.min(Math.max(position / maxScroll, 0), 1) : 0;
+  }
+
+  /**
+   * 添加事件监听函数
+   * @param type 事件名
+   * @param listener 监听函数
+   * @param once 是否只触发一次
+   */
+  private _addListener<K extends keyof DragScrollEventMap>(type: K, listener: DragScrollEventListener<K>, once: boolean) {
+    const listeners: Map<DragScrollEventListener<K>, boolean> = this._listeners[type] || new Map();
+    listeners.set(listener, once);
+    (this._listeners as Record<K, Map<DragScrollEventListener<K>, boolean>>)[type] = listeners;
+    return this;
+  }
+
+  /**
+   * 触发事件监听函数，并在 `$container` 上派发对应的 `CustomEvent`
+   * @param type 事件名
+   * @param detail 事件参数
+   */
+  private _emit<K extends keyof DragScrollEventMap>(type: K, detail: DragScrollEventMap[K]) {
+    const listeners: Map<DragScrollEventListener<K>, boolean> | undefined = this._listeners[type];
+    // 复制一份，监听函数中可安全地添加或移除监听
+    Array.from(listeners || []).forEach(([listener, once]) => {
+      if (once) listeners!.delete(listener);
+      listener(detail);
     });
+    this.$container.dispatchEvent(new CustomEvent(`${_$DRAG_SCROLL_PREFIX_CLASSNAME$_}:${type}`, { detail }));
+  }
+
+  /**
+   * 容器尺寸改变时派发 `resize` 事件
+   */
+  private _checkResize() {
+    const { clientWidth: width, clientHeight: height } = this.$container;
+    if (width === this._containerSize.width && height === this._containerSize.height) return;
+    this._containerSize = { width, height };
+    this._emit('resize', { width, height });
   }
 }
 